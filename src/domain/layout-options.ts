@@ -1,4 +1,7 @@
+export type LayoutType = 'tree' | 'radial' | 'balanced' | 'indented';
+
 export interface LayoutOptions {
+  layoutType?: LayoutType;
   rankDir?: 'TB' | 'BT' | 'LR' | 'RL';
   align?: 'UL' | 'UR' | 'DL' | 'DR';
   nodeSep?: number;
@@ -10,10 +13,16 @@ export interface LayoutOptions {
   ranker?: 'network-simplex' | 'tight-tree' | 'longest-path';
   spacingFactor?: number;
   zoomFactor?: number;
+  radialRingSep?: number;
+  balancedLevelSep?: number;
+  balancedNodeSep?: number;
+  indentSize?: number;
+  indentRowSep?: number;
 }
 
 export function createDefaultLayoutOptions() {
   return {
+    layoutType: 'tree' as LayoutType,
     rankDir: 'TB' as 'TB' | 'BT' | 'LR' | 'RL',
     align: undefined as 'UL' | 'UR' | 'DL' | 'DR' | undefined,
     nodeSep: 50,
@@ -33,5 +42,10 @@ export function createDefaultLayoutOptions() {
     edgeLabelOffset: 10,
     spacingFactor: 1.0,
     zoomFactor: undefined as number | undefined,
+    radialRingSep: 80,
+    balancedLevelSep: 80,
+    balancedNodeSep: 20,
+    indentSize: 40,
+    indentRowSep: 12,
   };
 }
@@ -1,70 +1,130 @@
-import { App, TFile, MarkdownView } from 'obsidian';
-import { OutlineNode } from '../utils/outline';
+import { App, Editor, EditorChange, MarkdownView, Notice, TFile } from 'obsidian';
+import { flattenOutline, OutlineNode, parseOutline } from '../utils/outline';
+import { computeLinePatch } from '../history/line-patch';
+import * as transforms from './outline-transforms';
+import { ChildInsertPosition, SiblingInsertPosition } from './outline-transforms';
+import { NodeStyle } from './node-style';
+import { resolveOutlineNodes } from './node-identity';
 
 export type DocString = string;
-export type ChildInsertPosition = 'first' | 'last';
-export type SiblingInsertPosition = 'before' | 'after';
 
-async function persistLines(app: App, file: TFile, lines: string[]): Promise<DocString> {
-  const newDoc = lines.join('\n');
-  let writtenViaEditor = false;
-  app.workspace.getLeavesOfType('markdown').forEach((leaf) => {
-    const view = leaf.view as MarkdownView;
-    if (view.file && view.file.path === file.path) {
-      view.editor.setValue(newDoc);
-      writtenViaEditor = true;
+/** The file's text right before an edit and after it; both are equal when nothing was written. */
+export interface DocEdit {
+  before: DocString;
+  after: DocString;
+}
+
+/** Replaces only the changed lines, so the cursor, selection and folds elsewhere are kept. */
+function applyEditorChanges(editor: Editor, before: string, after: string): void {
+  const lines = before.split('\n');
+  const changes: EditorChange[] = computeLinePatch(before, after).map((hunk) => {
+    const end = hunk.oldStart + hunk.removed.length;
+    if (end < lines.length) {
+      return {
+        from: { line: hunk.oldStart, ch: 0 },
+        to: { line: end, ch: 0 },
+        text: hunk.added.map((line) => `${line}\n`).join(''),
+      };
+    }
+
+    // The hunk reaches the last line, which has no line break of its own
+    const lastLine = lines.length - 1;
+    const to = { line: lastLine, ch: lines[lastLine].length };
+    if (hunk.oldStart === 0) {
+      return { from: { line: 0, ch: 0 }, to, text: hunk.added.join('\n') };
     }
+    return {
+      from: { line: hunk.oldStart - 1, ch: lines[hunk.oldStart - 1].length },
+      to,
+      text: hunk.added.map((line) => `\n${line}`).join(''),
+    };
   });
 
-  if (!writtenViaEditor) {
-    try {
-      await app.vault.modify(file, newDoc);
-    } catch (err) {}
+  editor.transaction({ changes });
+  if (editor.getValue() !== after) {
+    editor.setValue(after);
   }
-
-  return newDoc;
 }
 
-function subtreeEnd(lines: string[], start: number, indent: string): number {
-  const baseIndentLength = indent.length;
-  
-  for (let i = start + 1; i < lines.length; i++) {
-    const line = lines[i];
-    const match = line.match(/^(\s*)/);
-    const lineIndent = match ? match[1] : '';
-    
-    if (lineIndent.length <= baseIndentLength && line.trim() !== '') {
-      return i;
+/**
+ * Runs `edit` on the file's current text and writes the result in the same step. An open
+ * editor is read and changed synchronously; otherwise `vault.process` does the read and write.
+ * Returns the text `edit` actually ran on together with its result, so undo steps never take
+ * in changes made outside the edit. Errors thrown by `edit` are passed on unchanged, a failed
+ * write as "Could not save …".
+ */
+export async function processDocument(
+  app: App,
+  file: TFile,
+  edit: (doc: DocString) => DocString
+): Promise<DocEdit> {
+  const leaf = app.workspace.getLeavesOfType('markdown').find((candidate) => {
+    const view = candidate.view as MarkdownView;
+    return view.file?.path === file.path;
+  });
+
+  if (leaf) {
+    const editor = (leaf.view as MarkdownView).editor;
+    const doc = editor.getValue();
+    const newDoc = edit(doc);
+    if (newDoc !== doc) {
+      applyEditorChanges(editor, doc, newDoc);
     }
+    return { before: doc, after: newDoc };
   }
-  return lines.length;
+
+  const result: { edit?: DocEdit } = {};
+  try {
+    await app.vault.process(file, (data) => {
+      result.edit = { before: data, after: edit(data) };
+      return result.edit.after;
+    });
+  } catch (error) {
+    if (!result.edit) throw error;
+    throw new Error(`Could not save ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return result.edit!;
 }
 
-export async function addChild(
+/**
+ * Applies a pure outline edit to the file. The `targets` come from the view's last parse and are
+ * looked up again in the file's current text, so the edit never lands on lines that changed in
+ * the meantime. A failed lookup or write is shown as a notice and comes back with `after`
+ * equal to `before`, so callers record nothing.
+ */
+async function transformFile(
   app: App,
   file: TFile,
-  parent: OutlineNode,
-  childInsertPosition: ChildInsertPosition = 'last'
-): Promise<DocString> {
-  let fileText: string;
+  targets: OutlineNode[],
+  transform: (lines: string[], targets: OutlineNode[]) => string[]
+): Promise<DocEdit> {
+  const read: { doc?: DocString } = {};
   try {
-    fileText = await app.vault.read(file);
-  } catch (err) {
-    return "";
-  }
-  const lines = fileText.split(/\r?\n/);
+    return await processDocument(app, file, (doc) => {
+      read.doc = doc;
+      const resolved = targets.length > 0 ? resolveOutlineNodes(targets, flattenOutline(parseOutline(doc))) : [];
+      if (!resolved) {
+        throw new Error(`${file.name} changed outside the mindmap and the edited nodes could not be found. Nothing was changed.`);
+      }
 
-  if (parent.line < 0 || parent.line >= lines.length) {
-    return fileText;
+      const lines = doc.split(/\r?\n/);
+      const nextLines = transform(lines, resolved);
+      return nextLines === lines ? doc : nextLines.join('\n');
+    });
+  } catch (error) {
+    new Notice(error instanceof Error ? error.message : String(error));
+    if (read.doc === undefined) throw error;
+    return { before: read.doc, after: read.doc };
   }
+}
 
-  const insertIndex = childInsertPosition === 'first' ? parent.line + 1 : parent.endLine + 1;
-  const childIndent = parent.indent + '\t';
-  const newLine = `${childIndent}- `;
-  
-  lines.splice(insertIndex, 0, newLine);
-
-  return await persistLines(app, file, lines);
+export async function addChild(
+  app: App,
+  file: TFile,
+  parent: OutlineNode,
+  childInsertPosition: ChildInsertPosition = 'last'
+): Promise<DocEdit> {
+  return await transformFile(app, file, [parent], (lines, [target]) => transforms.addChild(lines, target, childInsertPosition));
 }
 
 export async function addSibling(
@@ -72,48 +132,19 @@ export async function addSibling(
   file: TFile,
   node: OutlineNode,
   siblingInsertPosition: SiblingInsertPosition = 'after'
-): Promise<DocString> {
-  let fileText: string;
-  try {
-    fileText = await app.vault.read(file);
-  } catch (err) {
-    return "";
-  }
-  const lines = fileText.split(/\r?\n/);
-
-  if (node.line < 0 || node.line >= lines.length) {
-    return fileText;
-  }
-
-  const insertIndex = siblingInsertPosition === 'before'
-    ? node.line
-    : subtreeEnd(lines, node.line, node.indent);
-  const newLine = `${node.indent}${node.marker} `;
-  lines.splice(insertIndex, 0, newLine);
-
-  return await persistLines(app, file, lines);
+): Promise<DocEdit> {
+  return await transformFile(app, file, [node], (lines, [target]) => transforms.addSibling(lines, target, siblingInsertPosition));
 }
 
+/** Rewrites the node's line; its body is replaced only when `body` is given. */
 export async function writeNode(
   app: App,
   file: TFile,
   node: OutlineNode,
-  txt: string
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  const lines = fileText.split(/\r?\n/);
-
-  if (node.line < 0 || node.line >= lines.length) {
-    return fileText;
-  }
-
-  // Replace the single line with new content
-  const prefix = node.indent + node.marker;
-  const newLine = `${prefix} ${txt}`;
-  
-  lines[node.line] = newLine;
-
-  return await persistLines(app, file, lines);
+  txt: string,
+  body?: string
+): Promise<DocEdit> {
+  return await transformFile(app, file, [node], (lines, [target]) => transforms.writeNode(lines, target, txt, body));
 }
 
 export async function writeMultipleNodes(
@@ -121,128 +152,40 @@ export async function writeMultipleNodes(
   file: TFile,
   nodes: OutlineNode[],
   transform: (node: OutlineNode) => string
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  const lines = fileText.split(/\r?\n/);
-
-  const sortedNodes = [...nodes].sort((a, b) => b.line - a.line);
-  sortedNodes.forEach((node) => {
-    if (node.line < 0 || node.line >= lines.length) {
-      return;
-    }
-
-    const newText = transform(node);
-    const prefix = node.indent + node.marker;
-    lines[node.line] = `${prefix} ${newText}`;
-  });
-
-  return await persistLines(app, file, lines);
+): Promise<DocEdit> {
+  return await transformFile(app, file, nodes, (lines, targets) => transforms.writeMultipleNodes(lines, targets, transform));
 }
 
 export async function deleteNode(
   app: App,
   file: TFile,
   node: OutlineNode
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  let lines = fileText.split(/\r?\n/);
-
-  if (node.line < 0 || node.line >= lines.length) {
-    return fileText;
-  }
-
-  const end = subtreeEnd(lines, node.line, node.indent);
-  lines.splice(node.line, end - node.line);
-
-  return await persistLines(app, file, lines);
+): Promise<DocEdit> {
+  return await transformFile(app, file, [node], (lines, [target]) => transforms.deleteNode(lines, target));
 }
 
 export async function deleteMultipleNodes(
   app: App,
   file: TFile,
   nodes: OutlineNode[]
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  let lines = fileText.split(/\r?\n/);
-
-  // Filter out nodes that are descendants of other nodes in the list
-  const topLevelNodes = nodes.filter(n => {
-    // If any other node in the list contains this node, filter it out
-    return !nodes.some(other => other !== n && n.line > other.line && n.line <= other.endLine);
-  });
-
-  // Sort descending by line number to safely splice from bottom to top
-  topLevelNodes.sort((a, b) => b.line - a.line);
-
-  for (const node of topLevelNodes) {
-    if (node.line >= 0 && node.line < lines.length) {
-      const end = subtreeEnd(lines, node.line, node.indent);
-      lines.splice(node.line, end - node.line);
-    }
-  }
-
-  return await persistLines(app, file, lines);
+): Promise<DocEdit> {
+  return await transformFile(app, file, nodes, (lines, targets) => transforms.deleteMultipleNodes(lines, targets));
 }
 
 export async function deleteMultipleNodesKeepChildren(
   app: App,
   file: TFile,
   nodes: OutlineNode[]
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  const lines = fileText.split(/\r?\n/);
-
-  const selectedLines = new Set(nodes.map((node) => node.line));
-  const sortedNodes = [...nodes].sort((a, b) => b.indent.length - a.indent.length);
-
-  const nextLines: string[] = [];
-
-  for (let i = 0; i < lines.length; i++) {
-    if (selectedLines.has(i)) continue;
-
-    let line = lines[i];
-    const deletedAncestors = sortedNodes.filter((node) => i > node.line && i <= node.endLine);
-
-    for (const ancestor of deletedAncestors) {
-      const childPrefix = `${ancestor.indent}\t`;
-      if (line.startsWith(childPrefix)) {
-        line = `${ancestor.indent}${line.slice(childPrefix.length)}`;
-      }
-    }
-
-    nextLines.push(line);
-  }
-
-  return await persistLines(app, file, nextLines);
+): Promise<DocEdit> {
+  return await transformFile(app, file, nodes, (lines, targets) => transforms.deleteMultipleNodesKeepChildren(lines, targets));
 }
 
 export async function deleteNodeKeepChildren(
   app: App,
   file: TFile,
   node: OutlineNode
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  let lines = fileText.split(/\r?\n/);
-
-  if (node.line < 0 || node.line >= lines.length) {
-    return fileText;
-  }
-
-  // Remove only the single node line
-  lines.splice(node.line, 1);
-
-  // Reduce indentation of each child node
-  for (let i = node.line; i < lines.length; i++) {
-    if (lines[i].startsWith(node.indent + '\t')) {
-      lines[i] = lines[i].replace(new RegExp(`^${node.indent}\\t`), node.indent);
-    } else {
-      const m = lines[i].match(/^(\s*)/);
-      const currentIndent = m ? m[1] : '';
-      if (currentIndent.length <= node.indent.length) break;
-    }
-  }
-
-  return await persistLines(app, file, lines);
+): Promise<DocEdit> {
+  return await transformFile(app, file, [node], (lines, [target]) => transforms.deleteNodeKeepChildren(lines, target));
 }
 
 export async function moveSubtree(
@@ -252,72 +195,36 @@ export async function moveSubtree(
   target: OutlineNode,
   insertAsChild: boolean = true,
   childInsertPosition: ChildInsertPosition = 'first',
-  siblingInsertPosition: SiblingInsertPosition = 'after',
-  beforeState?: string
-): Promise<DocString> {
-  const fileText = beforeState || await app.vault.read(file);
-  const originalLines = fileText.split(/\r?\n/);
+  siblingInsertPosition: SiblingInsertPosition = 'after'
+): Promise<DocEdit> {
+  return await transformFile(app, file, [source, target], (lines, [freshSource, freshTarget]) =>
+    transforms.moveSubtree(lines, freshSource, freshTarget, insertAsChild, childInsertPosition, siblingInsertPosition)
+  );
+}
 
-  if (source.line < 0 || source.line >= originalLines.length ||
-      target.line < 0 || target.line >= originalLines.length) {
-    return fileText;
-  }
+export async function indentNodes(
+  app: App,
+  file: TFile,
+  nodes: OutlineNode[]
+): Promise<DocEdit> {
+  return await transformFile(app, file, nodes, (lines, targets) => transforms.indentNodes(lines, targets));
+}
 
-  if (source.line === target.line) {
-    return fileText;
-  }
+export async function outdentNodes(
+  app: App,
+  file: TFile,
+  nodes: OutlineNode[]
+): Promise<DocEdit> {
+  return await transformFile(app, file, nodes, (lines, targets) => transforms.outdentNodes(lines, targets));
+}
 
-  // Extract source subtree
-  const sourceEnd = subtreeEnd(originalLines, source.line, source.indent);
-  const sourceLines = originalLines.slice(source.line, sourceEnd);
-  
-  // Remove source subtree from original position
-  const linesAfterRemoval = [...originalLines.slice(0, source.line), ...originalLines.slice(sourceEnd)];
-  
-  // Adjust target line number after removal
-  let adjustedTargetLine = target.line;
-  if (target.line > source.line) {
-    adjustedTargetLine -= (sourceEnd - source.line);
-  }
-  
-  // Calculate insertion point
-  let insertionPoint: number;
-  if (insertAsChild) {
-    insertionPoint = childInsertPosition === 'first'
-      ? adjustedTargetLine + 1
-      : subtreeEnd(linesAfterRemoval, adjustedTargetLine, target.indent);
-  } else if (siblingInsertPosition === 'before') {
-    insertionPoint = adjustedTargetLine;
-  } else {
-    const targetEnd = subtreeEnd(linesAfterRemoval, adjustedTargetLine, target.indent);
-    insertionPoint = targetEnd;
-  }
-  
-  // Calculate new indentation
-  const newIndent = insertAsChild ? target.indent + '\t' : target.indent;
-  const indentDiff = newIndent.length - source.indent.length;
-  
-  // Adjust indentation of moved lines
-  const adjustedSourceLines = sourceLines.map((line) => {
-    if (line.trim() === '') return line;
-    
-    if (indentDiff > 0) {
-      return '\t'.repeat(indentDiff) + line;
-    } else if (indentDiff < 0) {
-      const removeCount = Math.abs(indentDiff);
-      return line.replace(new RegExp(`^\t{0,${removeCount}}`), '');
-    }
-    return line;
-  });
-  
-  // Insert at calculated position
-  const finalLines = [
-    ...linesAfterRemoval.slice(0, insertionPoint),
-    ...adjustedSourceLines,
-    ...linesAfterRemoval.slice(insertionPoint)
-  ];
-  
-  return await persistLines(app, file, finalLines);
+export async function moveNodesAmongSiblings(
+  app: App,
+  file: TFile,
+  nodes: OutlineNode[],
+  direction: 'up' | 'down'
+): Promise<DocEdit> {
+  return await transformFile(app, file, nodes, (lines, targets) => transforms.moveNodesAmongSiblings(lines, targets, direction));
 }
 
 export async function addChildText(
@@ -326,23 +233,10 @@ export async function addChildText(
   parent: OutlineNode,
   text: string,
   childInsertPosition: ChildInsertPosition = 'last'
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  const lines = fileText.split(/\r?\n/);
-
-  if (parent.line < 0 || parent.line >= lines.length) {
-    return fileText;
-  }
-
-  const insertIndex = childInsertPosition === 'first' ? parent.line + 1 : parent.endLine + 1;
-  
-  // Create child with proper indentation
-  const childIndent = parent.indent + '\t';
-  const newLine = `${childIndent}- ${text}`;
-  
-  lines.splice(insertIndex, 0, newLine);
-
-  return await persistLines(app, file, lines);
+): Promise<DocEdit> {
+  return await transformFile(app, file, [parent], (lines, [target]) =>
+    transforms.addChildText(lines, target, text, childInsertPosition)
+  );
 }
 
 export async function addSiblingText(
@@ -351,95 +245,10 @@ export async function addSiblingText(
   target: OutlineNode,
   text: string,
   siblingInsertPosition: SiblingInsertPosition = 'after'
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  const lines = fileText.split(/\r?\n/);
-
-  if (target.line < 0 || target.line >= lines.length) {
-    return fileText;
-  }
-
-  const insertIndex = siblingInsertPosition === 'before'
-    ? target.line
-    : subtreeEnd(lines, target.line, target.indent);
-  const newLine = `${target.indent}${target.marker} ${text}`;
-
-  lines.splice(insertIndex, 0, newLine);
-
-  return await persistLines(app, file, lines);
-}
-
-function preparePastedOutlineLines(text: string, indent: string): string[] {
-  const rawLines = text
-    .split(/\r?\n/)
-    .map((line) => line.replace(/\s+$/, ''))
-    .filter((line) => line.trim() !== '');
-
-  if (rawLines.length === 0) return [];
-
-  const outlineItems = rawLines
-    .map((line, index) => {
-      const match = line.match(/^(\s*)([-*+]|\d+\.)\s+(.*)$/);
-      if (!match) return null;
-
-      return {
-        index,
-        indent: match[1] ?? '',
-        marker: match[2],
-        text: match[3] ?? '',
-      };
-    })
-    .filter((item): item is { index: number; indent: string; marker: string; text: string } => item !== null);
-
-  if (outlineItems.length === 0) {
-    return rawLines.map((line) => `${indent}- ${line.trim()}`);
-  }
-
-  const indentColumns = (value: string): number => {
-    let columns = 0;
-
-    for (const char of value) {
-      columns += char === '\t' ? 4 : 1;
-    }
-
-    return columns;
-  };
-
-  const rawIndentLevels: number[] = [];
-
-  outlineItems.forEach((item) => {
-    const columns = indentColumns(item.indent);
-
-    if (!rawIndentLevels.includes(columns)) {
-      rawIndentLevels.push(columns);
-      rawIndentLevels.sort((a, b) => a - b);
-    }
-  });
-
-  const levelForColumns = (columns: number): number => {
-    const exactLevel = rawIndentLevels.indexOf(columns);
-    if (exactLevel !== -1) return exactLevel;
-
-    return rawIndentLevels.filter((levelColumns) => levelColumns < columns).length;
-  };
-
-  const outlineByLine = new Map(outlineItems.map((item) => [item.index, item]));
-  const normalizedLines: string[] = [];
-  let lastOutlineLevel = 0;
-
-  rawLines.forEach((line, index) => {
-    const item = outlineByLine.get(index);
-
-    if (item) {
-      lastOutlineLevel = levelForColumns(indentColumns(item.indent));
-      normalizedLines.push(`${indent}${'\t'.repeat(lastOutlineLevel)}${item.marker} ${item.text}`);
-      return;
-    }
-
-    normalizedLines.push(`${indent}${'\t'.repeat(lastOutlineLevel + 1)}- ${line.trim()}`);
-  });
-
-  return normalizedLines;
+): Promise<DocEdit> {
+  return await transformFile(app, file, [target], (lines, [freshTarget]) =>
+    transforms.addSiblingText(lines, freshTarget, text, siblingInsertPosition)
+  );
 }
 
 export async function addMarkdownAsChildren(
@@ -447,20 +256,8 @@ export async function addMarkdownAsChildren(
   file: TFile,
   parent: OutlineNode,
   text: string
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  const lines = fileText.split(/\r?\n/);
-
-  if (parent.line < 0 || parent.line >= lines.length) {
-    return fileText;
-  }
-
-  const pastedLines = preparePastedOutlineLines(text, parent.indent + '\t');
-  if (pastedLines.length === 0) return fileText;
-
-  lines.splice(parent.endLine + 1, 0, ...pastedLines);
-
-  return await persistLines(app, file, lines);
+): Promise<DocEdit> {
+  return await transformFile(app, file, [parent], (lines, [target]) => transforms.addMarkdownAsChildren(lines, target, text));
 }
 
 export async function cutPasteMarkdownAsChildren(
@@ -469,65 +266,51 @@ export async function cutPasteMarkdownAsChildren(
   sourceNodes: OutlineNode[],
   parent: OutlineNode,
   text: string
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  const lines = fileText.split(/\r?\n/);
-
-  if (parent.line < 0 || parent.line >= lines.length) {
-    return fileText;
-  }
-
-  const topLevelNodes = sourceNodes
-    .filter((node) => !sourceNodes.some((other) => (
-      other !== node &&
-      node.line > other.line &&
-      node.line <= other.endLine
-    )))
-    .sort((a, b) => a.line - b.line);
-
-  if (topLevelNodes.some((node) => parent.line >= node.line && parent.line <= node.endLine)) {
-    return fileText;
-  }
-
-  const pastedLines = preparePastedOutlineLines(text, parent.indent + '\t');
-  if (pastedLines.length === 0) return fileText;
-
-  const deletedRanges = topLevelNodes.map((node) => ({ start: node.line, end: node.endLine }));
-  const keptLines: string[] = [];
-  let adjustedParentEndLine = -1;
-
-  for (let i = 0; i < lines.length; i++) {
-    const isDeleted = deletedRanges.some((range) => i >= range.start && i <= range.end);
-    if (isDeleted) continue;
-
-    keptLines.push(lines[i]);
-
-    if (i <= parent.endLine) {
-      adjustedParentEndLine = keptLines.length - 1;
-    }
-  }
-
-  if (adjustedParentEndLine < 0) return fileText;
-
-  keptLines.splice(adjustedParentEndLine + 1, 0, ...pastedLines);
-
-  return await persistLines(app, file, keptLines);
+): Promise<DocEdit> {
+  return await transformFile(app, file, [...sourceNodes, parent], (lines, targets) =>
+    transforms.cutPasteMarkdownAsChildren(lines, targets.slice(0, -1), targets[targets.length - 1], text)
+  );
 }
 
 export async function duplicateSubtree(
   app: App,
   file: TFile,
   node: OutlineNode
-): Promise<DocString> {
-  const fileText = await app.vault.read(file);
-  const lines = fileText.split(/\r?\n/);
+): Promise<DocEdit> {
+  return await transformFile(app, file, [node], (lines, [target]) => transforms.duplicateSubtree(lines, target));
+}
 
-  if (node.line < 0 || node.line >= lines.length) {
-    return fileText;
-  }
+export async function setSubtreeListType(
+  app: App,
+  file: TFile,
+  node: OutlineNode,
+  ordered: boolean
+): Promise<DocEdit> {
+  return await transformFile(app, file, [node], (lines, [target]) => transforms.setSubtreeListType(lines, target, ordered));
+}
+
+export async function setNodesStyle(
+  app: App,
+  file: TFile,
+  nodes: OutlineNode[],
+  style: NodeStyle
+): Promise<DocEdit> {
+  return await transformFile(app, file, nodes, (lines, targets) => transforms.setNodesStyle(lines, targets, style));
+}
 
-  const subtreeLines = lines.slice(node.line, node.endLine + 1);
-  lines.splice(node.endLine + 1, 0, ...subtreeLines);
+export async function setNodesCollapsed(
+  app: App,
+  file: TFile,
+  nodes: OutlineNode[],
+  collapsed: boolean
+): Promise<DocEdit> {
+  return await transformFile(app, file, nodes, (lines, targets) => transforms.setNodesCollapsed(lines, targets, collapsed));
+}
 
-  return await persistLines(app, file, lines);
+export async function collapseToLevel(
+  app: App,
+  file: TFile,
+  level: number
+): Promise<DocEdit> {
+  return await transformFile(app, file, [], (lines) => transforms.collapseToLevel(lines, level));
 }
@@ -0,0 +1,209 @@
+import type { Core, LayoutOptions as CytoscapeLayoutOptions, NodeSingular } from 'cytoscape';
+import { LayoutOptions, LayoutType } from './layout-options';
+import { sortByMarkdownOrder } from '../utils/cytoscape';
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+export interface LayoutNode {
+  id: string;
+  width: number;
+  height: number;
+  children: LayoutNode[];
+}
+
+function buildLayoutForest(cy: Core): LayoutNode[] {
+  const byId = new Map<string, LayoutNode>();
+  const childIds = new Set<string>();
+  const nodes = cy.nodes().sort(sortByMarkdownOrder);
+  nodes.forEach((node) => {
+    byId.set(node.id(), { id: node.id(), width: node.data('width') ?? 0, height: node.data('height') ?? 0, children: [] });
+  });
+
+  nodes.forEach((node) => {
+    const children = node.outgoers('node').sort(sortByMarkdownOrder);
+    byId.get(node.id())!.children = children.map((child) => {
+      childIds.add(child.id());
+      return byId.get(child.id())!;
+    });
+  });
+
+  return Array.from(byId.values()).filter((node) => !childIds.has(node.id));
+}
+
+/* ── Indented / org chart ─────────────────── */
+
+function layoutIndented(roots: LayoutNode[], indent: number, rowGap: number): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  let y = 0;
+
+  const walk = (node: LayoutNode, depth: number) => {
+    positions.set(node.id, { x: depth * indent + node.width / 2, y: y + node.height / 2 });
+    y += node.height + rowGap;
+    node.children.forEach((child) => walk(child, depth + 1));
+  };
+  roots.forEach((root) => walk(root, 0));
+
+  return positions;
+}
+
+/* ── Balanced left/right ──────────────────── */
+
+function subtreeHeight(node: LayoutNode, nodeGap: number, cache: Map<string, number>): number {
+  const cached = cache.get(node.id);
+  if (cached !== undefined) return cached;
+
+  const childrenHeight = node.children.reduce((sum, child) => sum + subtreeHeight(child, nodeGap, cache), 0) +
+    Math.max(0, node.children.length - 1) * nodeGap;
+  const height = Math.max(node.height, childrenHeight);
+  cache.set(node.id, height);
+  return height;
+}
+
+/**
+ * Splits children into a right and a left group of similar total height, keeping their order:
+ * the right side takes the leading children up to the first one that no longer fits.
+ */
+function splitBalanced(children: LayoutNode[], heightOf: (node: LayoutNode) => number): [LayoutNode[], LayoutNode[]] {
+  const total = children.reduce((sum, child) => sum + heightOf(child), 0);
+  let rightHeight = 0;
+
+  const firstLeft = children.findIndex((child, index) => {
+    if (index > 0 && rightHeight + heightOf(child) / 2 > total / 2) return true;
+    rightHeight += heightOf(child);
+    return false;
+  });
+  const split = firstLeft === -1 ? children.length : firstLeft;
+  return [children.slice(0, split), children.slice(split)];
+}
+
+export function layoutBalanced(roots: LayoutNode[], levelGap: number, nodeGap: number): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  const cache = new Map<string, number>();
+  const heightOf = (node: LayoutNode) => subtreeHeight(node, nodeGap, cache);
+
+  const placeChildren = (parent: LayoutNode, children: LayoutNode[], parentPos: Position, side: 1 | -1) => {
+    const blockHeight = children.reduce((sum, child) => sum + heightOf(child), 0) +
+      Math.max(0, children.length - 1) * nodeGap;
+    let top = parentPos.y - blockHeight / 2;
+
+    children.forEach((child) => {
+      const height = heightOf(child);
+      const pos = {
+        x: parentPos.x + side * (parent.width / 2 + levelGap + child.width / 2),
+        y: top + height / 2,
+      };
+      positions.set(child.id, pos);
+      placeChildren(child, child.children, pos, side);
+      top += height + nodeGap;
+    });
+  };
+
+  let y = 0;
+  roots.forEach((root) => {
+    const [right, left] = splitBalanced(root.children, heightOf);
+    const sideHeight = (nodes: LayoutNode[]) =>
+      nodes.reduce((sum, node) => sum + heightOf(node), 0) + Math.max(0, nodes.length - 1) * nodeGap;
+    const height = Math.max(root.height, sideHeight(right), sideHeight(left));
+
+    const pos = { x: 0, y: y + height / 2 };
+    positions.set(root.id, pos);
+    placeChildren(root, right, pos, 1);
+    placeChildren(root, left, pos, -1);
+    y += height + levelGap;
+  });
+
+  return positions;
+}
+
+/* ── Radial ───────────────────────────────── */
+
+function layoutRadial(roots: LayoutNode[], ringGap: number): Map<string, Position> {
+  const positions = new Map<string, Position>();
+  // Several root nodes share the centre as children of an invisible one
+  const center: LayoutNode = roots.length === 1 ? roots[0] : { id: '', width: 0, height: 0, children: roots };
+
+  const levels: LayoutNode[][] = [];
+  const collect = (node: LayoutNode, depth: number) => {
+    (levels[depth] ??= []).push(node);
+    node.children.forEach((child) => collect(child, depth + 1));
+  };
+  collect(center, 0);
+
+  // Rings grow with the largest node on them and with the number of nodes they carry
+  const halfDiagonal = (node: LayoutNode) => Math.hypot(node.width, node.height) / 2;
+  const radii = [0];
+  for (let depth = 1; depth < levels.length; depth++) {
+    const inner = Math.max(...levels[depth - 1].map(halfDiagonal));
+    const outer = Math.max(...levels[depth].map(halfDiagonal));
+    const circumference = levels[depth].reduce((sum, node) => sum + 2 * halfDiagonal(node) + ringGap / 2, 0);
+    radii[depth] = Math.max(radii[depth - 1] + inner + ringGap + outer, circumference / (2 * Math.PI));
+  }
+
+  const leafCount = new Map<string, number>();
+  const countLeaves = (node: LayoutNode): number => {
+    const count = node.children.length === 0 ? 1 : node.children.reduce((sum, child) => sum + countLeaves(child), 0);
+    leafCount.set(node.id, count);
+    return count;
+  };
+  countLeaves(center);
+
+  const place = (node: LayoutNode, depth: number, start: number, end: number) => {
+    const angle = (start + end) / 2;
+    if (node.id) {
+      positions.set(node.id, { x: radii[depth] * Math.cos(angle), y: radii[depth] * Math.sin(angle) });
+    }
+
+    let childStart = start;
+    node.children.forEach((child) => {
+      const span = ((end - start) * leafCount.get(child.id)!) / leafCount.get(node.id)!;
+      place(child, depth + 1, childStart, childStart + span);
+      childStart += span;
+    });
+  };
+  place(center, 0, -Math.PI / 2, (3 * Math.PI) / 2);
+
+  return positions;
+}
+
+/** The cytoscape layout for the chosen layout type: dagre for trees, precomputed positions otherwise. */
+export function createCytoscapeLayout(cy: Core, options: LayoutOptions, padding: number): CytoscapeLayoutOptions {
+  const layoutType: LayoutType = options.layoutType ?? 'tree';
+
+  if (layoutType === 'tree') {
+    return {
+      name: 'dagre',
+      rankDir: options.rankDir,
+      align: options.align,
+      nodeSep: options.nodeSep,
+      edgeSep: options.edgeSep,
+      rankSep: options.rankSep,
+      marginx: options.marginx,
+      marginy: options.marginy,
+      acyclicer: options.acyclicer,
+      ranker: options.ranker,
+      fit: false,
+      padding,
+      nodeDimensionsIncludeLabels: false,
+      spacingFactor: options.spacingFactor,
+      sort: sortByMarkdownOrder,
+    } as unknown as CytoscapeLayoutOptions;
+  }
+
+  const roots = buildLayoutForest(cy);
+  const positions = layoutType === 'radial'
+    ? layoutRadial(roots, options.radialRingSep ?? 80)
+    : layoutType === 'balanced'
+      ? layoutBalanced(roots, options.balancedLevelSep ?? 80, options.balancedNodeSep ?? 20)
+      : layoutIndented(roots, options.indentSize ?? 40, options.indentRowSep ?? 12);
+
+  return {
+    name: 'preset',
+    positions: (node: NodeSingular) => positions.get(node.id()) ?? { x: 0, y: 0 },
+    fit: false,
+    padding,
+    spacingFactor: options.spacingFactor,
+  } as unknown as CytoscapeLayoutOptions;
+}
@@ -0,0 +1,222 @@
+import type { OutlineNode } from '../utils/outline';
+
+const BLOCK_ID_PATTERN = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+
+// Above this many cells the LCS pass is skipped; the remaining passes still
+// match unchanged and moved nodes, only the alignment of duplicates suffers.
+const MAX_LCS_CELLS = 250000;
+
+export function getBlockId(text: string): string | null {
+  const match = text.match(BLOCK_ID_PATTERN);
+  return match ? match[1] : null;
+}
+
+export function stripBlockId(text: string): string {
+  return text.replace(BLOCK_ID_PATTERN, '');
+}
+
+/**
+ * Matches the nodes of two parses of the same document and returns a map from
+ * each previous line to the line now holding the same logical node. Nodes that
+ * were removed have no entry. Both inputs must be flat and in document order.
+ */
+export function matchOutlineNodes(previous: OutlineNode[], next: OutlineNode[]): Map<number, number> {
+  const prevToNext = new Array<number>(previous.length).fill(-1);
+  const nextToPrev = new Array<number>(next.length).fill(-1);
+
+  const link = (i: number, j: number) => {
+    prevToNext[i] = j;
+    nextToPrev[j] = i;
+  };
+
+  // 1. Obsidian block ids are explicit anchors and win over everything else.
+  const indexByBlockId = (nodes: OutlineNode[]) => {
+    const result = new Map<string, number>();
+    const duplicates = new Set<string>();
+    nodes.forEach((node, index) => {
+      const blockId = getBlockId(node.text);
+      if (!blockId) return;
+      if (result.has(blockId)) duplicates.add(blockId);
+      result.set(blockId, index);
+    });
+    duplicates.forEach((blockId) => result.delete(blockId));
+    return result;
+  };
+  const nextByBlockId = indexByBlockId(next);
+  indexByBlockId(previous).forEach((i, blockId) => {
+    const j = nextByBlockId.get(blockId);
+    if (j !== undefined) link(i, j);
+  });
+
+  // 2. Nodes with unchanged text that kept their relative order.
+  let start = 0;
+  while (
+    start < previous.length &&
+    start < next.length &&
+    prevToNext[start] === -1 &&
+    nextToPrev[start] === -1 &&
+    previous[start].text === next[start].text
+  ) {
+    link(start, start);
+    start++;
+  }
+
+  let prevEnd = previous.length - 1;
+  let nextEnd = next.length - 1;
+  while (
+    prevEnd >= start &&
+    nextEnd >= start &&
+    prevToNext[prevEnd] === -1 &&
+    nextToPrev[nextEnd] === -1 &&
+    previous[prevEnd].text === next[nextEnd].text
+  ) {
+    link(prevEnd, nextEnd);
+    prevEnd--;
+    nextEnd--;
+  }
+
+  const prevMiddle: number[] = [];
+  const nextMiddle: number[] = [];
+  for (let i = start; i <= prevEnd; i++) if (prevToNext[i] === -1) prevMiddle.push(i);
+  for (let j = start; j <= nextEnd; j++) if (nextToPrev[j] === -1) nextMiddle.push(j);
+
+  if (prevMiddle.length > 0 && nextMiddle.length > 0 && prevMiddle.length * nextMiddle.length <= MAX_LCS_CELLS) {
+    const rows = prevMiddle.length;
+    const cols = nextMiddle.length;
+    const table = new Uint32Array((rows + 1) * (cols + 1));
+    const at = (r: number, c: number) => r * (cols + 1) + c;
+
+    for (let r = rows - 1; r >= 0; r--) {
+      for (let c = cols - 1; c >= 0; c--) {
+        table[at(r, c)] = previous[prevMiddle[r]].text === next[nextMiddle[c]].text
+          ? table[at(r + 1, c + 1)] + 1
+          : Math.max(table[at(r + 1, c)], table[at(r, c + 1)]);
+      }
+    }
+
+    let r = 0;
+    let c = 0;
+    while (r < rows && c < cols) {
+      if (previous[prevMiddle[r]].text === next[nextMiddle[c]].text) {
+        link(prevMiddle[r], nextMiddle[c]);
+        r++;
+        c++;
+      } else if (table[at(r + 1, c)] >= table[at(r, c + 1)]) {
+        r++;
+      } else {
+        c++;
+      }
+    }
+  }
+
+  // 3. Moved nodes: text that is unique among the unmatched nodes on both sides.
+  const unmatchedByText = (nodes: OutlineNode[], links: number[]) => {
+    const result = new Map<string, number[]>();
+    nodes.forEach((node, index) => {
+      if (links[index] !== -1) return;
+      const bucket = result.get(node.text) ?? [];
+      bucket.push(index);
+      result.set(node.text, bucket);
+    });
+    return result;
+  };
+  const nextUnmatched = unmatchedByText(next, nextToPrev);
+  unmatchedByText(previous, prevToNext).forEach((indices, text) => {
+    const candidates = nextUnmatched.get(text);
+    if (indices.length === 1 && candidates?.length === 1) {
+      link(indices[0], candidates[0]);
+    }
+  });
+
+  // 4. Edited nodes: an unmatched node directly after a matched pair follows its neighbour.
+  for (let i = 0; i < previous.length; i++) {
+    if (prevToNext[i] !== -1) continue;
+
+    const j = i === 0 ? 0 : prevToNext[i - 1] === -1 ? -1 : prevToNext[i - 1] + 1;
+    if (j >= 0 && j < next.length && nextToPrev[j] === -1) {
+      link(i, j);
+    }
+  }
+
+  const result = new Map<number, number>();
+  prevToNext.forEach((j, i) => {
+    if (j !== -1) result.set(previous[i].line, next[j].line);
+  });
+  return result;
+}
+
+/**
+ * Finds nodes from an older parse in a fresh parse of the document. A node stays where its
+ * line still holds the same item; otherwise it is looked up by block id, then by text that
+ * is unique in the document. Returns null when any node cannot be found with certainty.
+ */
+export function resolveOutlineNodes(nodes: OutlineNode[], fresh: OutlineNode[]): OutlineNode[] | null {
+  const byLine = new Map(fresh.map((node) => [node.line, node]));
+  const findUnique = (matches: (candidate: OutlineNode) => boolean) => {
+    const found = fresh.filter(matches);
+    return found.length === 1 ? found[0] : null;
+  };
+
+  const resolved: OutlineNode[] = [];
+  for (const node of nodes) {
+    const atLine = byLine.get(node.line);
+    const blockId = getBlockId(node.text);
+    const match = atLine && atLine.text === node.text && atLine.indent === node.indent && atLine.marker === node.marker
+      ? atLine
+      : blockId
+        ? findUnique((candidate) => getBlockId(candidate.text) === blockId)
+        : findUnique((candidate) => candidate.text === node.text);
+
+    if (!match || resolved.includes(match)) return null;
+    resolved.push(match);
+  }
+  return resolved;
+}
+
+/**
+ * Hands out ids that stay attached to the same logical node while the document
+ * is reparsed, so view state does not depend on line numbers.
+ */
+export class NodeIdentityTracker {
+  private nodes: OutlineNode[] = [];
+  private idByLine = new Map<number, string>();
+  private lineById = new Map<string, number>();
+  private nextId = 0;
+
+  /** Moves the identities onto a new parse and returns the previous → current line map. */
+  public update(flat: OutlineNode[]): Map<number, number> {
+    const lineMap = matchOutlineNodes(this.nodes, flat);
+    const previousLineByCurrent = new Map<number, number>();
+    lineMap.forEach((currentLine, previousLine) => previousLineByCurrent.set(currentLine, previousLine));
+
+    const idByLine = new Map<number, string>();
+    const lineById = new Map<string, number>();
+    flat.forEach((node) => {
+      const previousLine = previousLineByCurrent.get(node.line);
+      const id = (previousLine !== undefined ? this.idByLine.get(previousLine) : undefined) ?? String(++this.nextId);
+      idByLine.set(node.line, id);
+      lineById.set(id, node.line);
+    });
+
+    this.nodes = flat;
+    this.idByLine = idByLine;
+    this.lineById = lineById;
+    this.annotate(flat);
+    return lineMap;
+  }
+
+  /** Copies the known ids onto freshly parsed nodes of the current document. */
+  public annotate(flat: OutlineNode[]): void {
+    flat.forEach((node) => {
+      node.id = this.idByLine.get(node.line);
+    });
+  }
+
+  public getId(line: number): string | undefined {
+    return this.idByLine.get(line);
+  }
+
+  public getLine(id: string): number | undefined {
+    return this.lineById.get(id);
+  }
+}
@@ -0,0 +1,56 @@
+export type NodeMarkers = Record<string, string | true>;
+
+const MARKER_PATTERN = /\s*%%eome:([^%]*)%%\s*$/;
+
+export function parseNodeMarkers(text: string): { text: string; markers: NodeMarkers } {
+  const match = text.match(MARKER_PATTERN);
+  if (!match || match.index === undefined) {
+    return { text, markers: {} };
+  }
+
+  return { text: text.slice(0, match.index), markers: parseMarkerTokens(match[1]) };
+}
+
+export function parseMarkerTokens(source: string): NodeMarkers {
+  const markers: NodeMarkers = {};
+  source
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      const separatorIndex = token.indexOf('=');
+      if (separatorIndex === -1) {
+        markers[token] = true;
+      } else {
+        markers[token.slice(0, separatorIndex)] = token.slice(separatorIndex + 1);
+      }
+    });
+  return markers;
+}
+
+export function formatMarkerTokens(markers: NodeMarkers): string {
+  return Object.entries(markers)
+    .map(([key, value]) => (value === true ? key : `${key}=${value}`))
+    .join(' ');
+}
+
+export function formatNodeMarkers(markers: NodeMarkers): string {
+  const tokens = formatMarkerTokens(markers);
+  return tokens ? ` %%eome:${tokens}%%` : '';
+}
+
+export function getLineMarkers(line: string): NodeMarkers {
+  return parseNodeMarkers(line).markers;
+}
+
+/** Replaces the trailing marker comment of a list line, keeping everything else untouched. */
+export function setLineMarkers(line: string, markers: NodeMarkers): string {
+  const { text } = parseNodeMarkers(line);
+  const suffix = formatNodeMarkers(markers);
+  // Keep the space after a bare list marker so empty nodes stay list items.
+  if (!suffix && /^\s*([-*+]|\d+\.)$/.test(text)) return `${text} `;
+  return `${text}${suffix}`;
+}
+
+export function isCollapsed(markers: NodeMarkers | undefined): boolean {
+  return markers?.collapsed === true;
+}
@@ -0,0 +1,85 @@
+import { OutlineNode, getNodeContent } from '../utils/outline';
+
+export interface NodeSearchQuery {
+  /** Lower-cased words that must all appear in the node. */
+  terms: string[];
+  /** Lower-cased tag names without `#`; nested tags match their parents. */
+  tags: string[];
+  patterns: RegExp[];
+  checkbox?: 'checked' | 'unchecked';
+}
+
+export type NodeSearchResult = 'match' | 'ancestor' | 'none';
+
+const REGEX_TOKEN = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Parses the search field: plain words, `/regex/flags`, `#tag`, `is:checked` and `is:unchecked`.
+ * All parts must match. Returns null for an empty query; throws on an invalid regular expression.
+ */
+export function parseSearchQuery(input: string): NodeSearchQuery | null {
+  const query: NodeSearchQuery = { terms: [], tags: [], patterns: [] };
+
+  input.trim().split(/\s+/).filter(Boolean).forEach((token) => {
+    const regexMatch = token.match(REGEX_TOKEN);
+    if (regexMatch) {
+      const flags = regexMatch[2].replace(/g/g, '');
+      query.patterns.push(new RegExp(regexMatch[1], flags || 'i'));
+    } else if (/^is:(checked|unchecked)$/i.test(token)) {
+      query.checkbox = token.slice(3).toLowerCase() as 'checked' | 'unchecked';
+    } else if (token.length > 1 && token.startsWith('#')) {
+      query.tags.push(token.slice(1).toLowerCase());
+    } else {
+      query.terms.push(token.toLowerCase());
+    }
+  });
+
+  const isEmpty = query.terms.length === 0 && query.tags.length === 0 &&
+    query.patterns.length === 0 && !query.checkbox;
+  return isEmpty ? null : query;
+}
+
+function getTags(content: string): string[] {
+  const tags: string[] = [];
+  const tagPattern = /(?:^|\s)#([^\s#]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(content)) !== null) {
+    tags.push(match[1].replace(/[.,;:!?)]+$/, '').toLowerCase());
+  }
+  return tags;
+}
+
+export function matchesSearch(query: NodeSearchQuery, node: OutlineNode): boolean {
+  if (query.checkbox && node.checkbox !== query.checkbox) return false;
+
+  const content = getNodeContent(node);
+  const lowerContent = content.toLowerCase();
+  if (!query.terms.every((term) => lowerContent.includes(term))) return false;
+  if (!query.patterns.every((pattern) => pattern.test(content))) return false;
+
+  if (query.tags.length > 0) {
+    const tags = getTags(content);
+    return query.tags.every((tag) => tags.some((candidate) => candidate === tag || candidate.startsWith(`${tag}/`)));
+  }
+  return true;
+}
+
+/** Marks every match and every ancestor of a match; all other nodes are left out. */
+export function searchOutline(query: NodeSearchQuery, roots: OutlineNode[]): Map<number, NodeSearchResult> {
+  const results = new Map<number, NodeSearchResult>();
+
+  const walk = (nodes: OutlineNode[], ancestors: OutlineNode[]) => {
+    nodes.forEach((node) => {
+      if (matchesSearch(query, node)) {
+        results.set(node.line, 'match');
+        ancestors.forEach((ancestor) => {
+          if (!results.has(ancestor.line)) results.set(ancestor.line, 'ancestor');
+        });
+      }
+      walk(node.children, [...ancestors, node]);
+    });
+  };
+  walk(roots, []);
+
+  return results;
+}
@@ -0,0 +1,97 @@
+import { NodeMarkers } from './node-markers';
+
+export const NODE_COLORS = ['red', 'orange', 'yellow', 'green', 'cyan', 'blue', 'purple', 'pink', 'gray'] as const;
+export const NODE_BORDERS = ['dashed', 'dotted', 'none'] as const;
+
+export type NodeColor = typeof NODE_COLORS[number];
+export type NodeBorder = typeof NODE_BORDERS[number];
+
+/** Per-node look, stored as `color=`, `border=`, `icon=` and `frame` in the line's marker comment. */
+export interface NodeStyle {
+  color?: NodeColor;
+  border?: NodeBorder;
+  icon?: string;
+  frame?: boolean;
+}
+
+export function getNodeStyle(markers: NodeMarkers): NodeStyle {
+  const style: NodeStyle = {};
+  const { color, border, icon, frame } = markers;
+
+  if (typeof color === 'string' && (NODE_COLORS as readonly string[]).includes(color)) {
+    style.color = color as NodeColor;
+  }
+  if (typeof border === 'string' && (NODE_BORDERS as readonly string[]).includes(border)) {
+    style.border = border as NodeBorder;
+  }
+  if (typeof icon === 'string' && icon) {
+    style.icon = icon;
+  }
+  if (frame === true) {
+    style.frame = true;
+  }
+  return style;
+}
+
+/**
+ * Marker values for the keys present in `patch`; a key given as `undefined` removes
+ * that part of the style and keys left out stay as they are.
+ */
+export function getStyleMarkers(patch: NodeStyle): Record<string, string | true | undefined> {
+  const markers: Record<string, string | true | undefined> = {};
+
+  if ('color' in patch) markers.color = patch.color;
+  if ('border' in patch) markers.border = patch.border;
+  if ('icon' in patch) markers.icon = normalizeNodeIcon(patch.icon ?? '') || undefined;
+  if ('frame' in patch) markers.frame = patch.frame ? true : undefined;
+  return markers;
+}
+
+/** Obsidian's default accent shades, for file formats that need fixed colors. */
+export const NODE_COLOR_HEX: Record<NodeColor, string> = {
+  red: '#e93147',
+  orange: '#ec7500',
+  yellow: '#e0ac00',
+  green: '#08b94e',
+  cyan: '#00bfbc',
+  blue: '#086ddd',
+  purple: '#7852ee',
+  pink: '#d53984',
+  gray: '#8a8a8a',
+};
+
+// Colors further away than this, such as white or pale tints, have no node color
+const MAX_COLOR_DISTANCE = 100;
+
+/** The node color closest to a `#rrggbb` value, or undefined when none is close. */
+export function getNearestNodeColor(hex: string): NodeColor | undefined {
+  const rgb = (value: string) => [1, 3, 5].map((start) => parseInt(value.slice(start, start + 2), 16));
+  if (!/^#[0-9a-f]{6}$/i.test(hex)) return undefined;
+
+  const target = rgb(hex);
+  let nearest: NodeColor | undefined;
+  let nearestDistance = MAX_COLOR_DISTANCE ** 2;
+  NODE_COLORS.forEach((color) => {
+    const distance = rgb(NODE_COLOR_HEX[color]).reduce((sum, channel, i) => sum + (channel - target[i]) ** 2, 0);
+    if (distance <= nearestDistance) {
+      nearest = color;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+/** CSS value for a node color; Obsidian has no gray accent, so gray uses a base shade. */
+export function getNodeColorValue(color: NodeColor): string {
+  return color === 'gray' ? 'var(--color-base-50)' : `var(--color-${color})`;
+}
+
+/** Marker values end at whitespace and `%`, so those are dropped from typed icons. */
+export function normalizeNodeIcon(icon: string): string {
+  return icon.replace(/[\s%]/g, '');
+}
+
+/** Lowercase names such as `star` or `book-open` are Lucide icons; anything else is shown as text. */
+export function isLucideIconName(icon: string): boolean {
+  return /^[a-z][a-z0-9-]*$/.test(icon);
+}
@@ -0,0 +1,806 @@
+// Pure edits of a Markdown outline. Each takes the file's lines and returns the new lines, or
+// the same lines when the edit does not apply. Nothing here touches the vault or the editor.
+
+import { findBodyEnd, flattenOutline, OutlineNode, parseOutline, splitNodeContent } from '../utils/outline';
+import { getLineMarkers, formatNodeMarkers, setLineMarkers, NodeMarkers } from './node-markers';
+import { getStyleMarkers, NodeStyle } from './node-style';
+
+export type ChildInsertPosition = 'first' | 'last';
+export type SiblingInsertPosition = 'before' | 'after';
+
+/** How the file writes its outline, so inserted and moved lines match the lines around them. */
+export interface OutlineStyle {
+  /** One nesting level, e.g. a tab or two or four spaces. */
+  indentUnit: string;
+  /** Marker for new bullet items: `-`, `*` or `+`. */
+  bullet: string;
+}
+
+export const DEFAULT_OUTLINE_STYLE: OutlineStyle = { indentUnit: '\t', bullet: '-' };
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  let best: string | undefined;
+  counts.forEach((count, value) => {
+    if (best === undefined || count > counts.get(best)!) best = value;
+  });
+  return best;
+}
+
+/**
+ * Reads the indent unit from the step between parents and their children and the bullet from
+ * the existing items. Files without nesting or bullets fall back to tabs and `-`.
+ */
+export function detectOutlineStyle(lines: string[]): OutlineStyle {
+  const steps: string[] = [];
+  const bullets: string[] = [];
+
+  const walk = (nodes: OutlineNode[], parentIndent: string | null) => {
+    nodes.forEach((node) => {
+      if (parentIndent !== null && node.indent.length > parentIndent.length && node.indent.startsWith(parentIndent)) {
+        steps.push(node.indent.slice(parentIndent.length));
+      }
+      if (/^[-*+]$/.test(node.marker)) bullets.push(node.marker);
+      walk(node.children, node.indent);
+    });
+  };
+  walk(parseOutline(lines.join('\n')), null);
+
+  return {
+    indentUnit: mostCommon(steps) ?? DEFAULT_OUTLINE_STYLE.indentUnit,
+    bullet: mostCommon(bullets) ?? DEFAULT_OUTLINE_STYLE.bullet,
+  };
+}
+
+const ORDERED_MARKER = /^\d+\.$/;
+
+export function isOrderedMarker(marker: string): boolean {
+  return ORDERED_MARKER.test(marker);
+}
+
+/** Runs of adjacent numbered siblings, in document order. */
+function getOrderedRuns(lines: string[]): OutlineNode[][] {
+  const runs: OutlineNode[][] = [];
+
+  const walk = (siblings: OutlineNode[]) => {
+    let run: OutlineNode[] = [];
+    const flush = () => {
+      if (run.length > 0) runs.push(run);
+      run = [];
+    };
+
+    siblings.forEach((node) => {
+      if (isOrderedMarker(node.marker)) {
+        run.push(node);
+      } else {
+        flush();
+      }
+      walk(node.children);
+    });
+    flush();
+  };
+  walk(parseOutline(lines.join('\n')));
+
+  return runs;
+}
+
+const ORDERED_PREFIX = /^(\s*)\d+\./;
+
+function orderedItemText(line: string): string {
+  return line.replace(ORDERED_PREFIX, '').trim();
+}
+
+/**
+ * Renumbers the runs of numbered siblings that an edit changed from `before` to `after`.
+ * A changed run keeps the first number of the run its items came from (or its lowest number
+ * when all items are new); runs the edit did not touch keep their numbers as written.
+ */
+export function renumberOrderedLists(before: string[], after: string[]): string[] {
+  const runKey = (lines: string[], run: OutlineNode[]) =>
+    run.map((node) => lines[node.line].replace(ORDERED_PREFIX, '$1#.')).join('\n');
+  const numberAt = (lines: string[], node: OutlineNode) => parseInt(lines[node.line].trim(), 10);
+
+  const beforeRuns = getOrderedRuns(before);
+  const unchangedRuns = new Set(beforeRuns.map((run) => runKey(before, run)));
+  const runStarts = new Map<string, number>();
+  beforeRuns.forEach((run) => {
+    run.forEach((node) => {
+      const text = orderedItemText(before[node.line]);
+      if (text && !runStarts.has(text)) runStarts.set(text, numberAt(before, run[0]));
+    });
+  });
+
+  const result = [...after];
+  getOrderedRuns(after).forEach((run) => {
+    if (unchangedRuns.has(runKey(after, run))) return;
+
+    const known = run
+      .map((node) => runStarts.get(orderedItemText(after[node.line])))
+      .find((start) => start !== undefined);
+    const start = known ?? Math.min(...run.map((node) => numberAt(after, node)));
+    run.forEach((node, index) => {
+      result[node.line] = result[node.line].replace(ORDERED_PREFIX, `$1${start + index}.`);
+    });
+  });
+
+  return result;
+}
+
+/** Indent for a new child: the one the parent's children already use, or one step deeper than the parent. */
+function childIndentOf(parent: OutlineNode, style: OutlineStyle): string {
+  return parent.children[0]?.indent ?? `${parent.indent}${style.indentUnit}`;
+}
+
+/** Marker for a new child: numbered when the parent's list already is, the file's bullet otherwise. */
+function childMarker(parent: OutlineNode, style: OutlineStyle): string {
+  const firstChild = parent.children[0];
+  return firstChild && isOrderedMarker(firstChild.marker) ? '1.' : style.bullet;
+}
+
+export function withMarker(line: string, key: string, value: string | true | undefined): string {
+  const markers: NodeMarkers = { ...getLineMarkers(line) };
+  if (value === undefined) {
+    if (!(key in markers)) return line;
+    delete markers[key];
+  } else {
+    markers[key] = value;
+  }
+  return setLineMarkers(line, markers);
+}
+
+/**
+ * Indents a node body to the item's text column, like a list-item continuation paragraph.
+ * Lines that would start a list item of their own are escaped.
+ */
+export function formatBodyLines(indent: string, marker: string, body: string): string[] {
+  if (!body) return [];
+
+  const bodyIndent = indent + ' '.repeat(marker.length + 1);
+  let inFence = false;
+  return body.split(/\r?\n/).map((line) => {
+    if (line.trim() === '') return '';
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      line = line.replace(/^(\s*)([-*+])(?=\s|$)/, '$1\\$2').replace(/^(\s*)(\d+)\.(?=\s|$)/, '$1$2\\.');
+    }
+    return `${bodyIndent}${line}`;
+  });
+}
+
+function reindentLines(lines: string[], fromIndent: string, toIndent: string): string[] {
+  return lines.map((line) => line.startsWith(fromIndent) ? `${toIndent}${line.slice(fromIndent.length)}` : line);
+}
+
+function isValidLine(lines: string[], node: OutlineNode): boolean {
+  return node.line >= 0 && node.line < lines.length;
+}
+
+export function subtreeEnd(lines: string[], start: number, indent: string): number {
+  const baseIndentLength = indent.length;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    const match = line.match(/^(\s*)/);
+    const lineIndent = match ? match[1] : '';
+
+    if (lineIndent.length <= baseIndentLength && line.trim() !== '') {
+      return i;
+    }
+  }
+  return lines.length;
+}
+
+/** Like `subtreeEnd`, but leaves blank lines after the subtree where they are. */
+function subtreeContentEnd(lines: string[], start: number, indent: string): number {
+  let end = subtreeEnd(lines, start, indent);
+  while (end > start + 1 && lines[end - 1].trim() === '') end--;
+  return end;
+}
+
+/* ── Adding nodes ─────────────────────────── */
+
+export function addChild(
+  lines: string[],
+  parent: OutlineNode,
+  childInsertPosition: ChildInsertPosition = 'last'
+): string[] {
+  if (!isValidLine(lines, parent)) return lines;
+
+  const style = detectOutlineStyle(lines);
+  const result = [...lines];
+  const insertIndex = childInsertPosition === 'first' ? parent.bodyEndLine + 1 : parent.endLine + 1;
+  const childIndent = childIndentOf(parent, style);
+  const newLine = `${childIndent}${childMarker(parent, style)} `;
+
+  result.splice(insertIndex, 0, newLine);
+  // A new child is opened for editing right away, so it must not end up hidden.
+  result[parent.line] = withMarker(result[parent.line], 'collapsed', undefined);
+
+  return renumberOrderedLists(lines, result);
+}
+
+export function addSibling(
+  lines: string[],
+  node: OutlineNode,
+  siblingInsertPosition: SiblingInsertPosition = 'after'
+): string[] {
+  if (!isValidLine(lines, node)) return lines;
+
+  const result = [...lines];
+  const insertIndex = siblingInsertPosition === 'before'
+    ? node.line
+    : subtreeEnd(result, node.line, node.indent);
+  result.splice(insertIndex, 0, `${node.indent}${node.marker} `);
+
+  return renumberOrderedLists(lines, result);
+}
+
+export function addChildText(
+  lines: string[],
+  parent: OutlineNode,
+  text: string,
+  childInsertPosition: ChildInsertPosition = 'last'
+): string[] {
+  if (!isValidLine(lines, parent)) return lines;
+
+  const style = detectOutlineStyle(lines);
+  const result = [...lines];
+  const insertIndex = childInsertPosition === 'first' ? parent.bodyEndLine + 1 : parent.endLine + 1;
+  const childIndent = childIndentOf(parent, style);
+  const marker = childMarker(parent, style);
+  const { text: title, body } = splitNodeContent(text);
+
+  result.splice(insertIndex, 0, `${childIndent}${marker} ${title}`, ...formatBodyLines(childIndent, marker, body));
+
+  return renumberOrderedLists(lines, result);
+}
+
+export function addSiblingText(
+  lines: string[],
+  target: OutlineNode,
+  text: string,
+  siblingInsertPosition: SiblingInsertPosition = 'after'
+): string[] {
+  if (!isValidLine(lines, target)) return lines;
+
+  const result = [...lines];
+  const insertIndex = siblingInsertPosition === 'before'
+    ? target.line
+    : subtreeEnd(result, target.line, target.indent);
+  const { text: title, body } = splitNodeContent(text);
+
+  result.splice(
+    insertIndex,
+    0,
+    `${target.indent}${target.marker} ${title}`,
+    ...formatBodyLines(target.indent, target.marker, body)
+  );
+
+  return renumberOrderedLists(lines, result);
+}
+
+export function duplicateSubtree(lines: string[], node: OutlineNode): string[] {
+  if (!isValidLine(lines, node)) return lines;
+
+  const result = [...lines];
+  result.splice(node.endLine + 1, 0, ...lines.slice(node.line, node.endLine + 1));
+
+  return renumberOrderedLists(lines, result);
+}
+
+/* ── Editing nodes ────────────────────────── */
+
+/** Rewrites the node's line; its body is replaced only when `body` is given. */
+export function writeNode(lines: string[], node: OutlineNode, txt: string, body?: string): string[] {
+  if (!isValidLine(lines, node)) return lines;
+
+  const result = [...lines];
+  // Replace the single line with new content, keeping the node's marker comment
+  const prefix = node.indent + node.marker;
+  result[node.line] = `${prefix} ${txt}${formatNodeMarkers(getLineMarkers(lines[node.line]))}`;
+  if (body !== undefined) {
+    result.splice(node.line + 1, node.bodyEndLine - node.line, ...formatBodyLines(node.indent, node.marker, body));
+  }
+
+  return result;
+}
+
+export function writeMultipleNodes(
+  lines: string[],
+  nodes: OutlineNode[],
+  transform: (node: OutlineNode) => string
+): string[] {
+  const result = [...lines];
+
+  nodes.forEach((node) => {
+    if (!isValidLine(lines, node)) return;
+
+    const prefix = node.indent + node.marker;
+    result[node.line] = `${prefix} ${transform(node)}${formatNodeMarkers(getLineMarkers(lines[node.line]))}`;
+  });
+
+  return result;
+}
+
+/** Changes the style markers named in `style` on each node's line and leaves the others alone. */
+export function setNodesStyle(lines: string[], nodes: OutlineNode[], style: NodeStyle): string[] {
+  const result = [...lines];
+  const markers = Object.entries(getStyleMarkers(style));
+
+  nodes.forEach((node) => {
+    if (!isValidLine(lines, node)) return;
+    result[node.line] = markers.reduce((line, [key, value]) => withMarker(line, key, value), result[node.line]);
+  });
+
+  return result;
+}
+
+export function setNodesCollapsed(lines: string[], nodes: OutlineNode[], collapsed: boolean): string[] {
+  const result = [...lines];
+
+  nodes.forEach((node) => {
+    if (!isValidLine(lines, node) || node.children.length === 0) return;
+    result[node.line] = withMarker(result[node.line], 'collapsed', collapsed ? true : undefined);
+  });
+
+  return result;
+}
+
+/**
+ * Folds every node on the given depth (1 = root nodes) and unfolds all nodes above it.
+ * Level 0 unfolds the whole outline. Deeper nodes keep their own fold state.
+ */
+export function collapseToLevel(lines: string[], level: number): string[] {
+  const result = [...lines];
+
+  const walk = (nodes: OutlineNode[], depth: number) => {
+    nodes.forEach((node) => {
+      if (node.children.length === 0) return;
+
+      if (level === 0 || depth < level) {
+        result[node.line] = withMarker(result[node.line], 'collapsed', undefined);
+      } else if (depth === level) {
+        result[node.line] = withMarker(result[node.line], 'collapsed', true);
+        return;
+      }
+
+      walk(node.children, depth + 1);
+    });
+  };
+  walk(parseOutline(lines.join('\n')), 1);
+
+  return result;
+}
+
+/** Turns the lists below the node into numbered lists, or into bullet lists in the file's style. */
+export function setSubtreeListType(lines: string[], node: OutlineNode, ordered: boolean): string[] {
+  const result = [...lines];
+  const marker = ordered ? '1.' : detectOutlineStyle(lines).bullet;
+
+  flattenOutline(node.children).forEach((item) => {
+    if (!isValidLine(lines, item) || isOrderedMarker(item.marker) === ordered) return;
+
+    result[item.line] = result[item.line].replace(/^(\s*)([-*+]|\d+\.)/, `$1${marker}`);
+    // Body lines stay aligned with the item's text
+    const oldBodyIndent = item.indent + ' '.repeat(item.marker.length + 1);
+    const newBodyIndent = item.indent + ' '.repeat(marker.length + 1);
+    for (let i = item.line + 1; i <= item.bodyEndLine; i++) {
+      if (result[i].startsWith(oldBodyIndent)) result[i] = newBodyIndent + result[i].slice(oldBodyIndent.length);
+    }
+  });
+
+  return renumberOrderedLists(lines, result);
+}
+
+/* ── Deleting nodes ───────────────────────── */
+
+/** Nodes that are not inside the subtree of another node in the list, in document order. */
+function getTopLevelNodes(nodes: OutlineNode[]): OutlineNode[] {
+  return nodes
+    .filter((node) => !nodes.some((other) => other !== node && node.line > other.line && node.line <= other.endLine))
+    .sort((a, b) => a.line - b.line);
+}
+
+export function deleteNode(lines: string[], node: OutlineNode): string[] {
+  if (!isValidLine(lines, node)) return lines;
+
+  const result = [...lines];
+  result.splice(node.line, subtreeEnd(lines, node.line, node.indent) - node.line);
+
+  return renumberOrderedLists(lines, result);
+}
+
+export function deleteMultipleNodes(lines: string[], nodes: OutlineNode[]): string[] {
+  const result = [...lines];
+
+  // Bottom to top, so the line numbers of the nodes still to be removed stay valid
+  getTopLevelNodes(nodes).reverse().forEach((node) => {
+    if (!isValidLine(result, node)) return;
+    result.splice(node.line, subtreeEnd(result, node.line, node.indent) - node.line);
+  });
+
+  return renumberOrderedLists(lines, result);
+}
+
+export function deleteNodeKeepChildren(lines: string[], node: OutlineNode): string[] {
+  if (!isValidLine(lines, node)) return lines;
+
+  // Remove only the node line and its body
+  const result = [...lines];
+  const removedCount = node.bodyEndLine - node.line + 1;
+  result.splice(node.line, removedCount);
+
+  // Move each child subtree up to the node's own level
+  node.children.forEach((child) => {
+    const start = child.line - removedCount;
+    const end = Math.min(result.length, child.endLine - removedCount + 1);
+    result.splice(start, end - start, ...reindentLines(result.slice(start, end), child.indent, node.indent));
+  });
+
+  return renumberOrderedLists(lines, result);
+}
+
+export function deleteMultipleNodesKeepChildren(lines: string[], nodes: OutlineNode[]): string[] {
+  const selectedLines = new Set<number>();
+  nodes.forEach((node) => {
+    for (let i = node.line; i <= node.bodyEndLine; i++) selectedLines.add(i);
+  });
+  const sortedNodes = [...nodes].sort((a, b) => b.indent.length - a.indent.length);
+
+  const result: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (selectedLines.has(i)) continue;
+
+    let line = lines[i];
+    const deletedAncestors = sortedNodes.filter((node) => i > node.line && i <= node.endLine);
+
+    for (const ancestor of deletedAncestors) {
+      const child = ancestor.children.find((candidate) => i >= candidate.line && i <= candidate.endLine);
+      if (child && line.startsWith(child.indent)) {
+        line = `${ancestor.indent}${line.slice(child.indent.length)}`;
+      }
+    }
+
+    result.push(line);
+  }
+
+  return renumberOrderedLists(lines, result);
+}
+
+/* ── Moving nodes ─────────────────────────── */
+
+export function moveSubtree(
+  lines: string[],
+  source: OutlineNode,
+  target: OutlineNode,
+  insertAsChild: boolean = true,
+  childInsertPosition: ChildInsertPosition = 'first',
+  siblingInsertPosition: SiblingInsertPosition = 'after'
+): string[] {
+  if (!isValidLine(lines, source) || !isValidLine(lines, target) || source.line === target.line) {
+    return lines;
+  }
+
+  // Extract source subtree
+  const sourceEnd = subtreeEnd(lines, source.line, source.indent);
+  const sourceLines = lines.slice(source.line, sourceEnd);
+
+  // Remove source subtree from original position
+  const linesAfterRemoval = [...lines.slice(0, source.line), ...lines.slice(sourceEnd)];
+
+  // Adjust target line number after removal
+  let adjustedTargetLine = target.line;
+  if (target.line > source.line) {
+    adjustedTargetLine -= (sourceEnd - source.line);
+  }
+
+  // The moved node must stay visible under its new parent
+  if (insertAsChild) {
+    linesAfterRemoval[adjustedTargetLine] = withMarker(linesAfterRemoval[adjustedTargetLine], 'collapsed', undefined);
+  }
+
+  // Calculate insertion point
+  let insertionPoint: number;
+  if (insertAsChild) {
+    insertionPoint = childInsertPosition === 'first'
+      ? adjustedTargetLine + (target.bodyEndLine - target.line) + 1
+      : subtreeEnd(linesAfterRemoval, adjustedTargetLine, target.indent);
+  } else if (siblingInsertPosition === 'before') {
+    insertionPoint = adjustedTargetLine;
+  } else {
+    insertionPoint = subtreeEnd(linesAfterRemoval, adjustedTargetLine, target.indent);
+  }
+
+  // Calculate new indentation
+  const newIndent = insertAsChild ? childIndentOf(target, detectOutlineStyle(lines)) : target.indent;
+
+  return renumberOrderedLists(lines, [
+    ...linesAfterRemoval.slice(0, insertionPoint),
+    ...reindentLines(sourceLines, source.indent, newIndent),
+    ...linesAfterRemoval.slice(insertionPoint)
+  ]);
+}
+
+interface SiblingRun {
+  parent: OutlineNode | null;
+  siblings: OutlineNode[];
+  /** Adjacent selected siblings, in document order. */
+  nodes: OutlineNode[];
+}
+
+/** Groups the selected nodes into runs of adjacent siblings; descendants of selected nodes are left out. */
+function getSelectedSiblingRuns(roots: OutlineNode[], selected: OutlineNode[]): SiblingRun[] {
+  const selectedLines = new Set(selected.map((node) => node.line));
+  const runs: SiblingRun[] = [];
+
+  const walk = (siblings: OutlineNode[], parent: OutlineNode | null) => {
+    let current: SiblingRun | null = null;
+    siblings.forEach((node) => {
+      if (!selectedLines.has(node.line)) {
+        current = null;
+        walk(node.children, node);
+        return;
+      }
+      if (!current) {
+        current = { parent, siblings, nodes: [] };
+        runs.push(current);
+      }
+      current.nodes.push(node);
+    });
+  };
+  walk(roots, null);
+
+  return runs;
+}
+
+/** Makes each run of selected nodes the last children of the sibling before it. */
+export function indentNodes(lines: string[], nodes: OutlineNode[]): string[] {
+  const result = [...lines];
+  const style = detectOutlineStyle(lines);
+  let changed = false;
+
+  getSelectedSiblingRuns(parseOutline(lines.join('\n')), nodes).forEach(({ siblings, nodes: run }) => {
+    const previous = siblings[siblings.indexOf(run[0]) - 1];
+    if (!previous) return;
+
+    const childIndent = childIndentOf(previous, style);
+    run.forEach((node) => {
+      const end = subtreeEnd(result, node.line, node.indent);
+      result.splice(node.line, end - node.line, ...reindentLines(result.slice(node.line, end), node.indent, childIndent));
+    });
+    // The nodes must stay visible under their new parent
+    result[previous.line] = withMarker(result[previous.line], 'collapsed', undefined);
+    changed = true;
+  });
+
+  return changed ? renumberOrderedLists(lines, result) : lines;
+}
+
+/** Moves each run of selected nodes out of its parent, right after the parent's subtree. */
+export function outdentNodes(lines: string[], nodes: OutlineNode[]): string[] {
+  // Bottom-up, so the lines of runs still to be moved stay where they were
+  const runs = getSelectedSiblingRuns(parseOutline(lines.join('\n')), nodes)
+    .filter((run) => run.parent !== null)
+    .sort((a, b) => b.nodes[0].line - a.nodes[0].line);
+  if (runs.length === 0) return lines;
+
+  let result = [...lines];
+  runs.forEach(({ parent, nodes: run }) => {
+    const start = run[0].line;
+    const last = run[run.length - 1];
+    const end = subtreeContentEnd(result, last.line, last.indent);
+    const block = reindentLines(result.slice(start, end), run[0].indent, parent!.indent);
+
+    result = [...result.slice(0, start), ...result.slice(end)];
+    const insertionPoint = subtreeContentEnd(result, parent!.line, parent!.indent);
+    result.splice(insertionPoint, 0, ...block);
+  });
+
+  return renumberOrderedLists(lines, result);
+}
+
+/** Swaps each run of selected nodes with the sibling before or after it. */
+export function moveNodesAmongSiblings(lines: string[], nodes: OutlineNode[], direction: 'up' | 'down'): string[] {
+  const result = [...lines];
+
+  // Runs inside the sibling being swapped with go first; a swap keeps the size of the
+  // region it touches, so the line numbers of all other runs stay valid
+  const runs = getSelectedSiblingRuns(parseOutline(lines.join('\n')), nodes);
+  if (direction === 'down') runs.reverse();
+  let changed = false;
+
+  runs.forEach(({ siblings, nodes: run }) => {
+    const first = run[0];
+    const last = run[run.length - 1];
+    const neighbour = direction === 'up'
+      ? siblings[siblings.indexOf(first) - 1]
+      : siblings[siblings.indexOf(last) + 1];
+    if (!neighbour) return;
+
+    const start = direction === 'up' ? neighbour.line : first.line;
+    const middle = direction === 'up' ? first.line : neighbour.line;
+    const firstEnd = direction === 'up'
+      ? subtreeContentEnd(result, neighbour.line, neighbour.indent)
+      : subtreeContentEnd(result, last.line, last.indent);
+    const end = direction === 'up'
+      ? subtreeContentEnd(result, last.line, last.indent)
+      : subtreeContentEnd(result, neighbour.line, neighbour.indent);
+
+    // Blank lines between the two blocks stay between them
+    result.splice(
+      start,
+      end - start,
+      ...result.slice(middle, end),
+      ...result.slice(firstEnd, middle),
+      ...result.slice(start, firstEnd)
+    );
+    changed = true;
+  });
+
+  return changed ? renumberOrderedLists(lines, result) : lines;
+}
+
+/* ── Pasting ──────────────────────────────── */
+
+export function preparePastedOutlineLines(
+  text: string,
+  indent: string,
+  style: OutlineStyle = DEFAULT_OUTLINE_STYLE
+): string[] {
+  const { indentUnit, bullet } = style;
+  const rawLines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+$/, ''));
+
+  if (rawLines.every((line) => line.trim() === '')) return [];
+
+  type PastedItem = { index: number; indent: string; marker: string; text: string };
+  const outlineItems: PastedItem[] = [];
+  // Continuation lines (the item's body) are kept with their item instead of becoming children
+  const bodyOwners = new Map<number, PastedItem>();
+
+  for (let index = 0; index < rawLines.length; index++) {
+    const match = rawLines[index].match(/^(\s*)([-*+]|\d+\.)(?:\s+(.*))?$/);
+    if (!match) continue;
+
+    const item: PastedItem = {
+      index,
+      indent: match[1] ?? '',
+      marker: match[2],
+      text: match[3] ?? '',
+    };
+    outlineItems.push(item);
+
+    const bodyEnd = findBodyEnd(rawLines, index, item.indent);
+    for (let bodyLine = index + 1; bodyLine <= bodyEnd; bodyLine++) {
+      bodyOwners.set(bodyLine, item);
+    }
+    index = bodyEnd;
+  }
+
+  if (outlineItems.length === 0) {
+    return rawLines
+      .filter((line) => line.trim() !== '')
+      .map((line) => `${indent}${bullet} ${line.trim()}`);
+  }
+
+  const indentColumns = (value: string): number => {
+    let columns = 0;
+
+    for (const char of value) {
+      columns += char === '\t' ? 4 : 1;
+    }
+
+    return columns;
+  };
+
+  const rawIndentLevels: number[] = [];
+
+  outlineItems.forEach((item) => {
+    const columns = indentColumns(item.indent);
+
+    if (!rawIndentLevels.includes(columns)) {
+      rawIndentLevels.push(columns);
+      rawIndentLevels.sort((a, b) => a - b);
+    }
+  });
+
+  const levelForColumns = (columns: number): number => {
+    const exactLevel = rawIndentLevels.indexOf(columns);
+    if (exactLevel !== -1) return exactLevel;
+
+    return rawIndentLevels.filter((levelColumns) => levelColumns < columns).length;
+  };
+
+  const outlineByLine = new Map(outlineItems.map((item) => [item.index, item]));
+  const normalizedLines: string[] = [];
+  let lastOutlineLevel = 0;
+
+  rawLines.forEach((line, index) => {
+    const item = outlineByLine.get(index);
+
+    if (item) {
+      lastOutlineLevel = levelForColumns(indentColumns(item.indent));
+      // Bullets follow the file; numbered items keep their numbers
+      const marker = /^[-*+]$/.test(item.marker) ? bullet : item.marker;
+      normalizedLines.push(`${indent}${indentUnit.repeat(lastOutlineLevel)}${marker} ${item.text}`);
+      return;
+    }
+
+    const owner = bodyOwners.get(index);
+    if (owner) {
+      if (line.trim() === '') {
+        normalizedLines.push('');
+        return;
+      }
+
+      const relative = line.startsWith(owner.indent)
+        ? line.slice(owner.indent.length).replace(new RegExp(`^\\s{0,${owner.marker.length + 1}}`), '')
+        : line.trim();
+      normalizedLines.push(`${indent}${indentUnit.repeat(lastOutlineLevel)}${' '.repeat(owner.marker.length + 1)}${relative}`);
+      return;
+    }
+
+    if (line.trim() === '') return;
+
+    normalizedLines.push(`${indent}${indentUnit.repeat(lastOutlineLevel + 1)}${bullet} ${line.trim()}`);
+  });
+
+  return normalizedLines;
+}
+
+export function addMarkdownAsChildren(lines: string[], parent: OutlineNode, text: string): string[] {
+  if (!isValidLine(lines, parent)) return lines;
+
+  const style = detectOutlineStyle(lines);
+  const pastedLines = preparePastedOutlineLines(text, childIndentOf(parent, style), style);
+  if (pastedLines.length === 0) return lines;
+
+  const result = [...lines];
+  result.splice(parent.endLine + 1, 0, ...pastedLines);
+
+  return renumberOrderedLists(lines, result);
+}
+
+/** Removes the cut nodes and pastes their text under `parent`, in one step. */
+export function cutPasteMarkdownAsChildren(
+  lines: string[],
+  sourceNodes: OutlineNode[],
+  parent: OutlineNode,
+  text: string
+): string[] {
+  if (!isValidLine(lines, parent)) return lines;
+
+  const topLevelNodes = getTopLevelNodes(sourceNodes);
+  if (topLevelNodes.some((node) => parent.line >= node.line && parent.line <= node.endLine)) {
+    return lines;
+  }
+
+  const style = detectOutlineStyle(lines);
+  const pastedLines = preparePastedOutlineLines(text, childIndentOf(parent, style), style);
+  if (pastedLines.length === 0) return lines;
+
+  const keptLines: string[] = [];
+  let adjustedParentEndLine = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const isDeleted = topLevelNodes.some((node) => i >= node.line && i <= node.endLine);
+    if (isDeleted) continue;
+
+    keptLines.push(lines[i]);
+
+    if (i <= parent.endLine) {
+      adjustedParentEndLine = keptLines.length - 1;
+    }
+  }
+
+  if (adjustedParentEndLine < 0) return lines;
+
+  keptLines.splice(adjustedParentEndLine + 1, 0, ...pastedLines);
+
+  return renumberOrderedLists(lines, keptLines);
+}
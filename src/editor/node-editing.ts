@@ -1,8 +1,26 @@
-import { Component, MarkdownRenderer, Notice } from 'obsidian';
-import { openInternalLink, OutlineNode } from '../utils/outline';
+import { Component, MarkdownRenderer, setIcon } from 'obsidian';
+import { getNodeContent, OutlineNode } from '../utils/outline';
+import { getNodeStyle, isLucideIconName } from '../domain/node-style';
+import { openInternalLink } from '../utils/vault-files';
 import type { MindmapView } from '../view/mindmap-view';
 import { createEmbeddableMarkdownEditor } from './embeddable-markdown-editor';
 
+/** Adds the node's icon in front of its content, as a Lucide icon or as emoji text. */
+export function renderNodeIcon(container: HTMLElement, icon: string | undefined): void {
+  if (!icon) return;
+
+  const iconEl = document.createElement('span');
+  iconEl.className = 'mindmap-node-icon';
+  if (isLucideIconName(icon)) {
+    setIcon(iconEl, icon);
+  }
+  // Unknown icon names are shown as typed
+  if (!iconEl.firstChild) {
+    iconEl.textContent = icon;
+  }
+  container.prepend(iconEl);
+}
+
 export function renderNodeMarkdown(
   container: HTMLElement,
   node: OutlineNode,
@@ -14,12 +32,16 @@ export function renderNodeMarkdown(
     container.style.setProperty('--mindmap-scale', String(node.scaleFactor));
   }
 
-  if (node.text.trim() === '') {
+  const content = getNodeContent(node);
+  const { icon } = getNodeStyle(node.markers);
+  if (content.trim() === '') {
     container.innerHTML = '&nbsp;';
+    renderNodeIcon(container, icon);
     return;
   }
+  renderNodeIcon(container, icon);
 
-  let sanitizedText = node.text;
+  let sanitizedText = content;
   sanitizedText = sanitizedText.replace(/\|([^|]*)\|/g, '`$1`');
   sanitizedText = sanitizedText.replace(/%%[^%]*%%/g, '');
 
@@ -70,7 +92,7 @@ export function renderNodeMarkdown(
     });
   }).catch((error) => {
     console.warn('MarkdownRenderer failed, using plain text:', error);
-    container.textContent = node.text;
+    container.textContent = content;
   });
 }
 
@@ -104,15 +126,16 @@ function startMobileNodeEditing(
     if (finished) return;
     finished = true;
 
-    const newText = view.normalizeNodeText(markdownEditor?.value ?? nodeToUse.text);
+    const newText = view.normalizeNodeText(markdownEditor?.value ?? getNodeContent(nodeToUse));
     closeEditor();
 
-    if (save && newText !== nodeToUse.text && view.file) {
+    if (save && newText !== getNodeContent(nodeToUse) && view.file) {
       await view.executeEditNodeCommand(nodeToUse, newText);
     }
 
     if (save) {
-      view.selectNode(nodeToUse.line);
+      const currentNode = view.resolveNode(nodeToUse);
+      if (currentNode) view.selectNode(currentNode.line);
     } else if (options.isNewNode && nodeToUse.children.length === 0) {
       await view.deleteNodesWithConfirmation([nodeToUse]);
     }
@@ -202,7 +225,7 @@ function startMobileNodeEditing(
 
   requestAnimationFrame(() => {
     markdownEditor = createEmbeddableMarkdownEditor(view.app, inputContainer, {
-      value: nodeToUse.text,
+      value: getNodeContent(nodeToUse),
       placeholder: 'Edit node',
       cls: 'mindmap-mobile-editor-cm',
       file: view.file,
@@ -278,30 +301,28 @@ export function startNodeEditing(
     const newText = view.normalizeNodeText(markdownEditor.value);
     closeEditor();
 
-    if (save && newText !== nodeToUse.text && view.file) {
+    if (save && newText !== getNodeContent(nodeToUse) && view.file) {
       await view.executeEditNodeCommand(nodeToUse, newText);
     }
 
     if (save) {
-      view.selectNode(nodeToUse.line);
+      const currentNode = view.resolveNode(nodeToUse);
+      if (currentNode) view.selectNode(currentNode.line);
     }
   };
 
   const markdownEditor = createEmbeddableMarkdownEditor(view.app, editorHost, {
-    value: nodeToUse.text,
+    value: getNodeContent(nodeToUse),
     placeholder: 'Edit node',
     cls: 'node-editor-cm',
     file: view.file,
-    singleLine: true,
     cursorLocation: {
       anchor: 0,
       head: nodeToUse.text.length,
     },
     onEnter: (_editor, _mod, shift) => {
-      if (shift) {
-        new Notice('Line breaks inside a node are not supported.');
-        return true;
-      }
+      // Shift+Enter adds a line to the node's body
+      if (shift) return false;
 
       void finish(true);
       return true;
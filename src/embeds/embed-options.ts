@@ -0,0 +1,159 @@
+import { OutlineNode } from '../utils/outline';
+import { LayoutOptions, LayoutType } from '../domain/layout-options';
+import { getBlockId, stripBlockId } from '../domain/node-identity';
+import { isCollapsed } from '../domain/node-markers';
+
+export interface EmbedOptions {
+  file: string;
+  /** Node text or `^block-id` of the node shown as the embed's root. */
+  root?: string;
+  /** Levels shown below and including the root level. */
+  depth?: number;
+  height?: number;
+  layoutType?: LayoutType;
+  rankDir?: LayoutOptions['rankDir'];
+  nodeWidth?: number;
+  hideChecked: boolean;
+  /** Lets the reader pan and zoom the embed instead of always fitting it to the box. */
+  panZoom: boolean;
+}
+
+const OPTION_KEYS = ['file', 'root', 'depth', 'height', 'layout', 'rankDir', 'nodeWidth', 'hideChecked', 'panZoom'];
+const LAYOUT_TYPES: LayoutType[] = ['tree', 'radial', 'balanced', 'indented'];
+const RANK_DIRS = ['TB', 'BT', 'LR', 'RL'];
+
+function unquote(value: string): string {
+  return value.replace(/^["']|["']$/g, '');
+}
+
+function parseNumber(key: string, value: string, min: number, integer: boolean): { value?: number; error?: string } {
+  const num = Number(value.replace(/px$/, ''));
+  if (value === '' || !Number.isFinite(num) || (integer && !Number.isInteger(num))) {
+    return { error: `${key} must be ${integer ? 'a whole number' : 'a number'}` };
+  }
+  if (num < min) return { error: `${key} must be at least ${min}` };
+  return { value: num };
+}
+
+/**
+ * Reads the body of a `mindmap-eome` code block: `key: value` lines, or a bare filename
+ * on its own line as a shorthand for `file:`. Blank lines and `#` comments are skipped.
+ */
+export function parseEmbedOptions(source: string): { options: EmbedOptions; errors: string[] } {
+  const options: EmbedOptions = { file: '', hideChecked: false, panZoom: false };
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  source
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .forEach((line) => {
+      const match = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+      const key = match ? match[1] : 'file';
+      const value = unquote(match ? match[2].trim() : line);
+
+      if (!OPTION_KEYS.includes(key)) {
+        errors.push(`unknown option "${key}"; use ${OPTION_KEYS.join(', ')}`);
+        return;
+      }
+      if (seen.has(key)) {
+        errors.push(key === 'file' ? 'put exactly one Markdown filename in the code block' : `${key} is set twice`);
+        return;
+      }
+      seen.add(key);
+
+      let result: { value?: unknown; error?: string } = { value };
+      switch (key) {
+        case 'depth':
+          result = parseNumber(key, value, 1, true);
+          break;
+        case 'height':
+          result = parseNumber(key, value, 100, false);
+          break;
+        case 'nodeWidth':
+          result = parseNumber(key, value, 80, false);
+          break;
+        case 'layout':
+          if (!(LAYOUT_TYPES as string[]).includes(value)) {
+            result = { error: `layout must be one of ${LAYOUT_TYPES.join(', ')}` };
+          }
+          break;
+        case 'rankDir':
+          if (!RANK_DIRS.includes(value)) {
+            result = { error: `rankDir must be one of ${RANK_DIRS.join(', ')}` };
+          }
+          break;
+        case 'hideChecked':
+        case 'panZoom':
+          result = value === 'true' || value === 'false'
+            ? { value: value === 'true' }
+            : { error: `${key} must be true or false` };
+          break;
+        case 'root':
+        case 'file':
+          if (!value) result = { error: `${key} is empty` };
+          break;
+      }
+
+      if (result.error) {
+        errors.push(result.error);
+        return;
+      }
+      const field = key === 'layout' ? 'layoutType' : key;
+      (options as unknown as Record<string, unknown>)[field] = result.value;
+    });
+
+  if (!options.file && errors.length === 0) {
+    errors.push('put exactly one Markdown filename in the code block');
+  }
+  return { options, errors };
+}
+
+/** Finds the root by `^block-id`, or else by its text, ignoring case and a trailing block id. */
+export function findEmbedRoot(roots: OutlineNode[], root: string): OutlineNode | null {
+  const blockId = root.startsWith('^') ? root.slice(1) : null;
+  const wanted = root.trim().toLowerCase();
+
+  const find = (nodes: OutlineNode[]): OutlineNode | null => {
+    for (const node of nodes) {
+      const matches = blockId !== null
+        ? getBlockId(node.text) === blockId
+        : stripBlockId(node.text).trim().toLowerCase() === wanted;
+      if (matches) return node;
+
+      const found = find(node.children);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  return find(roots);
+}
+
+/**
+ * The nodes an embed shows, in document order. Collapsed nodes hide their children as in
+ * the view; `depth` and `hideChecked` drop further nodes together with their subtrees.
+ * Returns null when the root option names no node.
+ */
+export function getEmbedNodes(roots: OutlineNode[], options: EmbedOptions): OutlineNode[] | null {
+  let start = roots;
+  if (options.root) {
+    const root = findEmbedRoot(roots, options.root);
+    if (!root) return null;
+    start = [root];
+  }
+
+  const result: OutlineNode[] = [];
+  const walk = (nodes: OutlineNode[], depth: number) => {
+    nodes.forEach((node) => {
+      if (options.hideChecked && node.checkbox === 'checked') return;
+      result.push(node);
+      if (isCollapsed(node.markers) || (options.depth !== undefined && depth >= options.depth)) return;
+      walk(node.children, depth + 1);
+    });
+  };
+  walk(start, 1);
+
+  return result;
+}
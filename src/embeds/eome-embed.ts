@@ -1,44 +1,34 @@
 import {
+  Component,
   MarkdownPostProcessorContext,
   MarkdownRenderChild,
   MarkdownRenderer,
+  TAbstractFile,
   TFile,
   setIcon,
 } from 'obsidian';
-import cytoscape, { ElementDefinition, type LayoutOptions } from 'cytoscape';
+import cytoscape, { ElementDefinition } from 'cytoscape';
 // @ts-ignore - no types available for cytoscape-dagre
 import dagre from 'cytoscape-dagre';
 
 import type MindmapPlugin from '../main';
-import { isOutlineCompatible, OutlineNode, parseOutline } from '../utils/outline';
-import { sortByMarkdownOrder } from '../utils/cytoscape';
+import { getNodeContent, isOutlineCompatible, OutlineNode, parseOutline } from '../utils/outline';
+import { createDefaultLayoutOptions } from '../domain/layout-options';
+import { createCytoscapeLayout } from '../domain/mindmap-layouts';
+import { getNodeColorValue, getNodeStyle } from '../domain/node-style';
+import { renderNodeIcon } from '../editor/node-editing';
+import { FrontmatterStorage } from '../storage/frontmatter-storage';
+import { resolveMindmapData } from '../storage/plugin-settings';
+import { EmbedOptions, getEmbedNodes, parseEmbedOptions } from './embed-options';
 
 cytoscape.use(dagre);
 
-function getEmbedFileName(source: string): string | null {
-  const lines = source
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter(Boolean);
+type NodeSize = { w: number; h: number; scaleFactor?: number };
 
-  if (lines.length !== 1) return null;
+/** Rendered node Markdown and the component that owns what the renderer loaded for it. */
+type RenderedContent = { el: HTMLElement; component: Component };
 
-  return lines[0].replace(/^["']|["']$/g, '');
-}
-
-function flattenOutline(nodes: OutlineNode[]): OutlineNode[] {
-  const flat: OutlineNode[] = [];
-
-  const walk = (items: OutlineNode[]) => {
-    items.forEach((node) => {
-      flat.push(node);
-      walk(node.children);
-    });
-  };
-
-  walk(nodes);
-  return flat;
-}
+const RERENDER_DELAY = 250;
 
 async function waitForAsyncContent(container: HTMLElement): Promise<void> {
   const images = Array.from(container.querySelectorAll('img'));
@@ -56,56 +46,6 @@ async function waitForAsyncContent(container: HTMLElement): Promise<void> {
   await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
 }
 
-async function measureNodes(
-  plugin: MindmapPlugin,
-  file: TFile,
-  flat: OutlineNode[]
-): Promise<Map<number, { w: number; h: number }>> {
-  const sizeMap = new Map<number, { w: number; h: number }>();
-  const targetWidth = 300;
-  const measureContainer = document.createElement('div');
-  measureContainer.className = 'mindmap-eome-measurement-container';
-  document.body.appendChild(measureContainer);
-
-  for (const node of flat) {
-    const box = document.createElement('div');
-    box.className = 'mindmap-measure-box';
-    box.style.setProperty('--mindmap-target-width', `${targetWidth}px`);
-
-    if (node.text.trim() === '') {
-      box.innerHTML = '&nbsp;';
-    } else {
-      await MarkdownRenderer.render(plugin.app, node.text, box, file.path, plugin);
-      await waitForAsyncContent(box);
-    }
-
-    measureContainer.appendChild(box);
-    await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
-
-    const rect = box.getBoundingClientRect();
-    let measuredW = rect.width || targetWidth;
-    let measuredH = rect.height || 40;
-
-    if (measuredW > targetWidth) {
-      const scale = targetWidth / measuredW;
-      node.scaleFactor = scale;
-      measuredW = targetWidth;
-      measuredH = measuredH * scale;
-    } else {
-      measuredW = targetWidth;
-    }
-
-    sizeMap.set(node.line, {
-      w: Math.max(80, measuredW),
-      h: Math.max(40, measuredH),
-    });
-    measureContainer.removeChild(box);
-  }
-
-  document.body.removeChild(measureContainer);
-  return sizeMap;
-}
-
 function buildElements(flat: OutlineNode[], sizeMap: Map<number, { w: number; h: number }>): ElementDefinition[] {
   const elements: ElementDefinition[] = [];
   const orderByLine = new Map<number, number>();
@@ -127,7 +67,7 @@ function buildElements(flat: OutlineNode[], sizeMap: Map<number, { w: number; h:
   });
 
   flat.forEach((parent) => {
-    parent.children.forEach((child) => {
+    parent.children.filter((child) => sizeMap.has(child.line)).forEach((child) => {
       elements.push({
         data: {
           id: `e${parent.line}-${child.line}`,
@@ -142,62 +82,403 @@ function buildElements(flat: OutlineNode[], sizeMap: Map<number, { w: number; h:
   return elements;
 }
 
-async function renderOverlays(
-  plugin: MindmapPlugin,
-  file: TFile,
-  wrapper: HTMLElement,
-  cy: cytoscape.Core,
-  flat: OutlineNode[],
-  sizeMap: Map<number, { w: number; h: number }>
-): Promise<void> {
-  wrapper.querySelectorAll('[data-mindmap-eome-overlay]').forEach((overlay) => overlay.remove());
+/** What the embed shows, without line numbers, so edits elsewhere in the file change nothing. */
+function getEmbedSignature(flat: OutlineNode[], layoutOptions: object): string {
+  const indexByNode = new Map<OutlineNode, number>();
+  flat.forEach((node, index) => indexByNode.set(node, index));
+
+  return JSON.stringify([
+    layoutOptions,
+    flat.map((node) => [
+      getNodeContent(node),
+      getNodeStyle(node.markers),
+      node.checkbox,
+      node.children.map((child) => indexByNode.get(child) ?? -1),
+    ]),
+  ]);
+}
 
-  const css = getComputedStyle(document.documentElement);
-  const txt = css.getPropertyValue('--text-normal').trim() || '#000';
-  const font = css.getPropertyValue('--font-family').trim() || 'inherit';
-  const bg = css.getPropertyValue('--background-primary').trim() || '#fff';
-  const zoom = cy.zoom();
+function renderError(el: HTMLElement, message: string): void {
+  el.empty();
+  el.createDiv({ cls: 'mindmap-eome-error', text: message });
+}
 
-  for (const node of flat) {
-    const cyNode = cy.getElementById(`n${node.line}`);
-    const dims = sizeMap.get(node.line);
-    if (!cyNode || cyNode.empty() || !dims) continue;
-
-    const position = cyNode.renderedPosition();
-    const box = document.createElement('div');
-    box.className = 'mindmap-overlay mindmap-eome-overlay';
-    box.dataset.mindmapEomeOverlay = '1';
-    box.style.setProperty('--mindmap-left', `${position.x}px`);
-    box.style.setProperty('--mindmap-top', `${position.y}px`);
-    box.style.setProperty('--mindmap-box-width', `${dims.w}px`);
-    box.style.setProperty('--mindmap-box-height', `${dims.h}px`);
-    box.style.setProperty('--mindmap-zoom', String(zoom));
-    box.style.setProperty('--mindmap-border', '#000000');
-    box.style.setProperty('--mindmap-bg', bg);
-    box.style.setProperty('--mindmap-color', txt);
-    box.style.setProperty('--mindmap-font', font);
-
-    const content = document.createElement('div');
-    content.className = 'markdown-rendered';
-    if (node.scaleFactor && node.scaleFactor !== 1) {
-      content.style.setProperty('--mindmap-scale', String(node.scaleFactor));
+/** A read-only mindmap of one file that follows changes to that file. */
+class MindmapEomeEmbed extends MarkdownRenderChild {
+  private cy: cytoscape.Core | null = null;
+  private wrapper: HTMLElement | null = null;
+  private flat: OutlineNode[] = [];
+  private sizeMap = new Map<number, { w: number; h: number }>();
+  private signature: string | null = null;
+  // Kept across re-renders so unchanged nodes are neither measured nor rendered again
+  private measurementCache = new Map<string, NodeSize>();
+  private renderedContent = new Map<string, RenderedContent[]>();
+  private overlayGeneration = 0;
+  private fitPending = true;
+  private rendering = false;
+  private renderQueued = false;
+  private renderTimeout: number | null = null;
+
+  constructor(
+    containerEl: HTMLElement,
+    private plugin: MindmapPlugin,
+    private file: TFile,
+    private options: EmbedOptions
+  ) {
+    super(containerEl);
+  }
+
+  onload(): void {
+    void this.render();
+
+    this.registerEvent(
+      this.plugin.app.vault.on('modify', (file: TAbstractFile) => {
+        if (file !== this.file) return;
+        if (this.renderTimeout !== null) window.clearTimeout(this.renderTimeout);
+        this.renderTimeout = window.setTimeout(() => {
+          this.renderTimeout = null;
+          void this.render();
+        }, RERENDER_DELAY);
+      })
+    );
+  }
+
+  onunload(): void {
+    if (this.renderTimeout !== null) window.clearTimeout(this.renderTimeout);
+    this.cy?.destroy();
+    this.cy = null;
+  }
+
+  private async render(): Promise<void> {
+    if (this.rendering) {
+      this.renderQueued = true;
+      return;
     }
 
-    if (node.text.trim() === '') {
-      content.innerHTML = '&nbsp;';
-    } else {
-      await MarkdownRenderer.render(plugin.app, node.text, content, file.path, plugin);
-      await waitForAsyncContent(content);
+    this.rendering = true;
+    try {
+      await this.update();
+    } finally {
+      this.rendering = false;
     }
 
-    box.appendChild(content);
-    wrapper.appendChild(box);
+    if (this.renderQueued) {
+      this.renderQueued = false;
+      await this.render();
+    }
   }
-}
 
-function renderError(el: HTMLElement, message: string): void {
-  el.empty();
-  el.createDiv({ cls: 'mindmap-eome-error', text: message });
+  private async update(): Promise<void> {
+    const { file, options } = this;
+    const markdown = await this.plugin.app.vault.read(file);
+    if (!isOutlineCompatible(markdown)) {
+      this.showError(`mindmap-eome: ${file.name} is not a compatible mindmap outline.`);
+      return;
+    }
+
+    const flat = getEmbedNodes(parseOutline(markdown), options);
+    if (!flat) {
+      this.showError(`mindmap-eome: no node "${options.root}" in ${file.name}.`);
+      return;
+    }
+    if (flat.length === 0) {
+      this.showError(`mindmap-eome: ${file.name} has no outline nodes.`);
+      return;
+    }
+
+    // Embeds follow the layout and node width chosen for the file, falling back to the vault
+    // defaults, unless the code block picks its own
+    const { data } = new FrontmatterStorage(this.plugin.app).readMindmapData(file);
+    const mindmapData = resolveMindmapData(this.plugin.settings, data);
+    const layoutOptions = { ...createDefaultLayoutOptions(), ...mindmapData };
+    if (options.layoutType) layoutOptions.layoutType = options.layoutType;
+    if (options.rankDir) layoutOptions.rankDir = options.rankDir;
+
+    const nodeWidth = options.nodeWidth ?? mindmapData.nodeWidth ?? 300;
+    const signature = getEmbedSignature(flat, { ...layoutOptions, nodeWidth });
+    this.flat = flat;
+    if (signature === this.signature && this.cy) return;
+    this.signature = signature;
+
+    this.sizeMap = await this.measureNodes(flat, nodeWidth);
+    const elements = buildElements(flat, this.sizeMap);
+    const cy = this.cy ?? this.createMap();
+    cy.json({ elements });
+    cy.layout(createCytoscapeLayout(cy, layoutOptions, 24)).run();
+  }
+
+  private showError(message: string): void {
+    this.cy?.destroy();
+    this.cy = null;
+    this.wrapper = null;
+    this.signature = null;
+    this.fitPending = true;
+    this.releaseContent(this.renderedContent);
+    this.renderedContent = new Map();
+    renderError(this.containerEl, message);
+  }
+
+  private releaseContent(contents: Map<string, RenderedContent[]>): void {
+    contents.forEach((list) => list.forEach(({ component }) => this.removeChild(component)));
+  }
+
+  private createMap(): cytoscape.Core {
+    const el = this.containerEl;
+    el.empty();
+    const wrapper = el.createDiv({ cls: 'mindmap-eome-wrapper' });
+    wrapper.classList.toggle('is-pan-zoom', this.options.panZoom);
+    if (this.options.height !== undefined) {
+      wrapper.style.setProperty('--mindmap-eome-height', `${this.options.height}px`);
+    }
+    this.wrapper = wrapper;
+
+    const canvas = wrapper.createDiv({ cls: 'mindmap-canvas mindmap-eome-canvas' });
+    const buttons = wrapper.createDiv({ cls: 'mindmap-eome-buttons' });
+    const openButton = buttons.createEl('button', {
+      cls: 'mindmap-eome-button',
+      attr: { 'aria-label': 'Open mindmap' },
+    });
+    setIcon(openButton, 'external-link');
+    openButton.addEventListener('click', async (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      await this.plugin.openMindmapReplacingLeaf(this.file);
+    });
+
+    const cy = cytoscape({
+      container: canvas,
+      layout: { name: 'preset' },
+      boxSelectionEnabled: false,
+      autoungrabify: true,
+      autounselectify: true,
+      userPanningEnabled: this.options.panZoom,
+      userZoomingEnabled: this.options.panZoom,
+      wheelSensitivity: 0.2,
+      style: [
+        {
+          selector: 'node',
+          style: {
+            'shape': 'rectangle',
+            'background-opacity': 0.01,
+            'background-color': '#ffffff',
+            width: 'data(width)',
+            height: 'data(height)',
+          },
+        },
+        {
+          selector: 'edge',
+          style: {
+            width: 1,
+            'line-color': '#000000',
+            'curve-style': 'straight',
+          },
+        },
+      ],
+    });
+
+    // Pan and zoom keep the viewport; a fresh or fixed embed is fitted to the box
+    cy.on('layoutstop', () => {
+      if (this.fitPending || !this.options.panZoom) {
+        this.fit();
+        this.fitPending = false;
+      }
+      void this.renderOverlays();
+    });
+
+    if (this.options.panZoom) {
+      const fitButton = buttons.createEl('button', {
+        cls: 'mindmap-eome-button',
+        attr: { 'aria-label': 'Fit to view' },
+      });
+      setIcon(fitButton, 'maximize-2');
+      fitButton.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        this.fit();
+      });
+
+      cy.on('viewport', () => this.positionOverlays());
+
+      // Cytoscape only sees wheel events on its canvas; nodes are covered by overlays
+      wrapper.addEventListener('wheel', (event) => {
+        if (canvas.contains(event.target as Node)) return;
+        event.preventDefault();
+        const rect = canvas.getBoundingClientRect();
+        cy.zoom({
+          level: cy.zoom() * Math.exp(-event.deltaY * 0.002),
+          renderedPosition: { x: event.clientX - rect.left, y: event.clientY - rect.top },
+        });
+      }, { passive: false });
+    }
+
+    this.cy = cy;
+    return cy;
+  }
+
+  private fit(): void {
+    if (!this.cy) return;
+    this.cy.fit(this.cy.elements(), 28);
+    this.cy.center(this.cy.elements());
+  }
+
+  private async measureNodes(flat: OutlineNode[], targetWidth: number): Promise<Map<number, { w: number; h: number }>> {
+    const sizeMap = new Map<number, { w: number; h: number }>();
+    const measureContainer = document.createElement('div');
+    measureContainer.className = 'mindmap-eome-measurement-container';
+    document.body.appendChild(measureContainer);
+    // Measurement boxes are thrown away, so is everything rendered into them
+    const measureComponent = this.addChild(new Component());
+
+    for (const node of flat) {
+      const content = getNodeContent(node);
+      const { icon, frame } = getNodeStyle(node.markers);
+      const measurementKey = `${targetWidth}\u0000${icon ?? ''}\u0000${frame ? 'frame' : ''}\u0000${content}`;
+      const cached = this.measurementCache.get(measurementKey);
+      if (cached) {
+        node.scaleFactor = cached.scaleFactor;
+        sizeMap.set(node.line, { w: cached.w, h: cached.h });
+        continue;
+      }
+
+      const box = document.createElement('div');
+      box.className = 'mindmap-measure-box';
+      box.style.setProperty('--mindmap-target-width', `${targetWidth}px`);
+      box.classList.toggle('has-frame', frame === true);
+
+      if (content.trim() === '') {
+        box.innerHTML = '&nbsp;';
+      } else {
+        await MarkdownRenderer.render(this.plugin.app, content, box, this.file.path, measureComponent);
+        await waitForAsyncContent(box);
+      }
+      renderNodeIcon(box, icon);
+
+      measureContainer.appendChild(box);
+      await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+      const rect = box.getBoundingClientRect();
+      let measuredW = rect.width || targetWidth;
+      let measuredH = rect.height || 40;
+
+      if (measuredW > targetWidth) {
+        const scale = targetWidth / measuredW;
+        node.scaleFactor = scale;
+        measuredW = targetWidth;
+        measuredH = measuredH * scale;
+      } else {
+        measuredW = targetWidth;
+      }
+
+      const size = { w: Math.max(80, measuredW), h: Math.max(40, measuredH) };
+      sizeMap.set(node.line, size);
+      this.measurementCache.set(measurementKey, { ...size, scaleFactor: node.scaleFactor });
+      measureContainer.removeChild(box);
+    }
+
+    document.body.removeChild(measureContainer);
+    this.removeChild(measureComponent);
+    return sizeMap;
+  }
+
+  private async renderOverlays(): Promise<void> {
+    const { cy, wrapper } = this;
+    if (!cy || !wrapper) return;
+
+    // A newer layout may finish while this one is still rendering Markdown
+    const generation = ++this.overlayGeneration;
+    const previousContent = this.renderedContent;
+    const nextContent = new Map<string, RenderedContent[]>();
+    wrapper.querySelectorAll('[data-mindmap-eome-overlay]').forEach((overlay) => overlay.remove());
+
+    const css = getComputedStyle(document.documentElement);
+    const txt = css.getPropertyValue('--text-normal').trim() || '#000';
+    const font = css.getPropertyValue('--font-family').trim() || 'inherit';
+    const bg = css.getPropertyValue('--background-primary').trim() || '#fff';
+
+    for (const [index, node] of this.flat.entries()) {
+      const dims = this.sizeMap.get(node.line);
+      if (!dims) continue;
+
+      const box = document.createElement('div');
+      box.className = 'mindmap-overlay mindmap-eome-overlay';
+      box.dataset.mindmapEomeOverlay = '1';
+      box.dataset.nodeLine = String(node.line);
+      box.style.setProperty('--mindmap-box-width', `${dims.w}px`);
+      box.style.setProperty('--mindmap-box-height', `${dims.h}px`);
+      box.style.setProperty('--mindmap-border', '#000000');
+      box.style.setProperty('--mindmap-bg', bg);
+      box.style.setProperty('--mindmap-color', txt);
+      box.style.setProperty('--mindmap-font', font);
+
+      // Same look as in the mindmap view
+      const nodeStyle = getNodeStyle(node.markers);
+      if (nodeStyle.color) {
+        const color = getNodeColorValue(nodeStyle.color);
+        box.style.setProperty('--mindmap-border', color);
+        box.style.setProperty('--mindmap-bg', `color-mix(in srgb, ${color} 14%, ${bg})`);
+      }
+      if (nodeStyle.border) {
+        box.dataset.border = nodeStyle.border;
+      }
+      box.classList.toggle('has-frame', nodeStyle.frame === true);
+
+      box.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        const current = this.flat[index] ?? node;
+        void this.plugin.openMindmapReplacingLeaf(this.file, { line: current.line, text: current.text });
+      });
+
+      const key = `${node.scaleFactor ?? 1}\u0000${nodeStyle.icon ?? ''}\u0000${getNodeContent(node)}`;
+      let rendered = previousContent.get(key)?.pop();
+      if (!rendered) {
+        const el = document.createElement('div');
+        el.className = 'markdown-rendered';
+        if (node.scaleFactor && node.scaleFactor !== 1) {
+          el.style.setProperty('--mindmap-scale', String(node.scaleFactor));
+        }
+
+        rendered = { el, component: this.addChild(new Component()) };
+        if (getNodeContent(node).trim() === '') {
+          el.innerHTML = '&nbsp;';
+        } else {
+          await MarkdownRenderer.render(this.plugin.app, getNodeContent(node), el, this.file.path, rendered.component);
+          await waitForAsyncContent(el);
+        }
+        renderNodeIcon(el, nodeStyle.icon);
+        if (generation !== this.overlayGeneration) {
+          this.removeChild(rendered.component);
+          this.releaseContent(nextContent);
+          return;
+        }
+      }
+      nextContent.set(key, [...(nextContent.get(key) ?? []), rendered]);
+
+      box.appendChild(rendered.el);
+      wrapper.appendChild(box);
+    }
+
+    // Content no node uses any more is unloaded with what was rendered into it
+    this.releaseContent(previousContent);
+    this.renderedContent = nextContent;
+    this.positionOverlays();
+  }
+
+  private positionOverlays(): void {
+    const { cy, wrapper } = this;
+    if (!cy || !wrapper) return;
+
+    const zoom = cy.zoom();
+    wrapper.querySelectorAll<HTMLElement>('[data-mindmap-eome-overlay]').forEach((box) => {
+      const cyNode = cy.getElementById(`n${box.dataset.nodeLine}`);
+      if (cyNode.empty()) return;
+
+      const position = cyNode.renderedPosition();
+      box.style.setProperty('--mindmap-left', `${position.x}px`);
+      box.style.setProperty('--mindmap-top', `${position.y}px`);
+      box.style.setProperty('--mindmap-zoom', String(zoom));
+    });
+  }
 }
 
 export async function renderMindmapEomeEmbed(
@@ -209,96 +490,18 @@ export async function renderMindmapEomeEmbed(
   el.classList.add('mindmap-eome-host');
   el.parentElement?.classList.add('mindmap-eome-codeblock');
 
-  const fileName = getEmbedFileName(source);
-
-  if (!fileName) {
-    renderError(el, 'mindmap-eome: put exactly one Markdown filename in the code block.');
+  const { options, errors } = parseEmbedOptions(source);
+  if (errors.length > 0) {
+    renderError(el, `mindmap-eome: ${errors.join('; ')}.`);
     return;
   }
 
+  const fileName = options.file;
   const file = plugin.app.metadataCache.getFirstLinkpathDest(fileName, ctx.sourcePath);
   if (!(file instanceof TFile) || file.extension !== 'md') {
     renderError(el, `mindmap-eome: file not found: ${fileName}`);
     return;
   }
 
-  const markdown = await plugin.app.vault.read(file);
-  if (!isOutlineCompatible(markdown)) {
-    renderError(el, `mindmap-eome: ${file.name} is not a compatible mindmap outline.`);
-    return;
-  }
-
-  const flat = flattenOutline(parseOutline(markdown));
-  if (flat.length === 0) {
-    renderError(el, `mindmap-eome: ${file.name} has no outline nodes.`);
-    return;
-  }
-
-  el.empty();
-  const wrapper = el.createDiv({ cls: 'mindmap-eome-wrapper' });
-  const canvas = wrapper.createDiv({ cls: 'mindmap-canvas mindmap-eome-canvas' });
-  const openButton = wrapper.createEl('button', {
-    cls: 'mindmap-eome-open-button',
-    attr: { 'aria-label': 'Open mindmap' },
-  });
-  setIcon(openButton, 'external-link');
-  openButton.addEventListener('click', async (event) => {
-    event.preventDefault();
-    event.stopPropagation();
-    await plugin.openMindmapReplacingLeaf(file);
-  });
-
-  const sizeMap = await measureNodes(plugin, file, flat);
-  const elements = buildElements(flat, sizeMap);
-  const layoutOptions = {
-    name: 'dagre',
-    fit: false,
-    padding: 24,
-    nodeDimensionsIncludeLabels: false,
-    spacingFactor: 1,
-    sort: sortByMarkdownOrder,
-  } as unknown as LayoutOptions;
-
-  const cy = cytoscape({
-    container: canvas,
-    elements,
-    layout: layoutOptions,
-    boxSelectionEnabled: false,
-    autoungrabify: true,
-    autounselectify: true,
-    userPanningEnabled: false,
-    userZoomingEnabled: false,
-    style: [
-      {
-        selector: 'node',
-        style: {
-          'shape': 'rectangle',
-          'background-opacity': 0.01,
-          'background-color': '#ffffff',
-          width: 'data(width)',
-          height: 'data(height)',
-        },
-      },
-      {
-        selector: 'edge',
-        style: {
-          width: 1,
-          'line-color': '#000000',
-          'curve-style': 'straight',
-        },
-      },
-    ],
-  });
-
-  cy.on('layoutstop', () => {
-    cy.fit(cy.elements(), 28);
-    cy.center(cy.elements());
-    void renderOverlays(plugin, file, wrapper, cy, flat, sizeMap);
-  });
-
-  cy.layout(layoutOptions).run();
-
-  const child = new MarkdownRenderChild(wrapper);
-  child.onunload = () => cy.destroy();
-  ctx.addChild(child);
+  ctx.addChild(new MindmapEomeEmbed(el, plugin, file, options));
 }
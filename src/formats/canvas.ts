@@ -0,0 +1,190 @@
+import { OutlineNode, parseCheckboxState } from '../utils/outline';
+import { NodeMarkers, formatNodeMarkers, parseNodeMarkers } from '../domain/node-markers';
+import { getNearestNodeColor, getNodeStyle, NODE_COLOR_HEX, NodeColor } from '../domain/node-style';
+import { ExchangeNode, exchangeNodesToMarkdown } from './mindmap-exchange';
+
+// Canvas text nodes hold the node as Markdown: a task line for tasks, the body after a blank
+// line and the remaining markers as a hidden comment. Node colors use the canvas color instead.
+
+type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+
+interface CanvasNode {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text?: string;
+  file?: string;
+  url?: string;
+  color?: string;
+}
+
+interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  fromSide?: CanvasSide;
+  toNode: string;
+  toSide?: CanvasSide;
+}
+
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
+
+/** A laid out node; `x` and `y` are its center, as cytoscape positions are. */
+export interface CanvasLayoutBox {
+  node: OutlineNode;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Canvas presets 1-6; the other node colors are written as hex values
+const CANVAS_PRESETS: Partial<Record<NodeColor, string>> = {
+  red: '1',
+  orange: '2',
+  yellow: '3',
+  green: '4',
+  cyan: '5',
+  purple: '6',
+};
+
+function canvasId(prefix: string, index: number): string {
+  return `${prefix}${index.toString(16).padStart(16 - prefix.length, '0')}`;
+}
+
+function getSides(dx: number, dy: number): { fromSide: CanvasSide; toSide: CanvasSide } {
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? { fromSide: 'right', toSide: 'left' } : { fromSide: 'left', toSide: 'right' };
+  }
+  return dy > 0 ? { fromSide: 'bottom', toSide: 'top' } : { fromSide: 'top', toSide: 'bottom' };
+}
+
+function formatCanvasText(node: OutlineNode): string {
+  // Folded children are not part of the layout, so the node is written unfolded
+  const { collapsed: _collapsed, color: _color, ...markers } = node.markers;
+  const checkbox = node.checkbox === 'checked' ? '- [x] ' : node.checkbox === 'unchecked' ? '- [ ] ' : '';
+  const title = `${checkbox}${node.text}${formatNodeMarkers(markers)}`;
+  return node.body ? `${title}\n\n${node.body}` : title;
+}
+
+/** Writes the laid out nodes as canvas text nodes with an edge from each parent to its children. */
+export function layoutToCanvas(boxes: CanvasLayoutBox[]): CanvasData {
+  const ids = new Map<number, string>();
+  const nodes: CanvasNode[] = boxes.map((box, index) => {
+    const id = canvasId('', index);
+    ids.set(box.node.line, id);
+
+    const canvasNode: CanvasNode = {
+      id,
+      type: 'text',
+      text: formatCanvasText(box.node),
+      x: Math.round(box.x - box.w / 2),
+      y: Math.round(box.y - box.h / 2),
+      width: Math.round(box.w),
+      height: Math.round(box.h),
+    };
+    const { color } = getNodeStyle(box.node.markers);
+    if (color) {
+      canvasNode.color = CANVAS_PRESETS[color] ?? NODE_COLOR_HEX[color];
+    }
+    return canvasNode;
+  });
+
+  const edges: CanvasEdge[] = [];
+  const boxByLine = new Map(boxes.map((box) => [box.node.line, box]));
+  boxes.forEach((box) => {
+    box.node.children.forEach((child) => {
+      const childBox = boxByLine.get(child.line);
+      if (!childBox) return;
+      edges.push({
+        id: canvasId('e', edges.length),
+        fromNode: ids.get(box.node.line)!,
+        toNode: ids.get(child.line)!,
+        ...getSides(childBox.x - box.x, childBox.y - box.y),
+      });
+    });
+  });
+
+  return { nodes, edges };
+}
+
+function getCanvasNodeContent(node: CanvasNode): string {
+  if (node.type === 'file' && node.file) return `[[${node.file}]]`;
+  if (node.type === 'link' && node.url) return node.url;
+  return node.text ?? '';
+}
+
+function readCanvasColor(color: string | undefined): NodeColor | undefined {
+  if (!color) return undefined;
+  const preset = Object.entries(CANVAS_PRESETS).find(([, value]) => value === color);
+  return preset ? preset[0] as NodeColor : getNearestNodeColor(color);
+}
+
+function toExchangeNode(node: CanvasNode): ExchangeNode {
+  const [firstLine = '', ...rest] = getCanvasNodeContent(node).replace(/\r\n?/g, '\n').split('\n');
+  const parsed = parseNodeMarkers(firstLine.trim());
+  const { checkbox, text } = parseCheckboxState(parsed.text.replace(/^[-*+]\s+(?=\[[ xX]\]\s)/, ''));
+
+  const markers: NodeMarkers = { ...parsed.markers };
+  delete markers.color;
+  const color = readCanvasColor(node.color);
+  if (color) markers.color = color;
+
+  return { text, checkbox, body: rest.join('\n').trim(), markers, children: [] };
+}
+
+// Siblings are ordered along the axis they are spread over: left to right or top to bottom
+function sortByPosition(nodes: CanvasNode[]): CanvasNode[] {
+  const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+  const horizontal = nodes.length > 1 && spread(nodes.map((n) => n.x)) > spread(nodes.map((n) => n.y));
+  return [...nodes].sort((a, b) => (horizontal ? a.x - b.x || a.y - b.y : a.y - b.y || a.x - b.x));
+}
+
+/**
+ * Rebuilds an outline from a tree-shaped canvas: edges point from parent to child, every card
+ * has at most one parent and unconnected cards become root nodes. Groups are ignored.
+ */
+export function canvasToMarkdown(json: string): string {
+  const data = JSON.parse(json) as Partial<CanvasData>;
+  const cards = (data.nodes ?? []).filter((node) => node.type !== 'group');
+  if (cards.length === 0) {
+    throw new Error('The canvas has no cards.');
+  }
+
+  const cardsById = new Map(cards.map((card) => [card.id, card]));
+  const parents = new Map<string, string>();
+  const children = new Map<string, CanvasNode[]>();
+  (data.edges ?? []).forEach((edge) => {
+    const child = cardsById.get(edge.toNode);
+    if (!child || !cardsById.has(edge.fromNode) || edge.fromNode === edge.toNode) return;
+
+    const existing = parents.get(child.id);
+    if (existing !== undefined && existing !== edge.fromNode) {
+      const title = toExchangeNode(child).text || child.id;
+      throw new Error(`The canvas is not a tree: "${title}" has more than one parent.`);
+    }
+    if (existing === undefined) {
+      parents.set(child.id, edge.fromNode);
+      children.set(edge.fromNode, [...(children.get(edge.fromNode) ?? []), child]);
+    }
+  });
+
+  let visited = 0;
+  const build = (card: CanvasNode): ExchangeNode => {
+    visited++;
+    const node = toExchangeNode(card);
+    node.children = sortByPosition(children.get(card.id) ?? []).map(build);
+    return node;
+  };
+  const roots = sortByPosition(cards.filter((card) => !parents.has(card.id))).map(build);
+  if (visited < cards.length) {
+    throw new Error('The canvas is not a tree: some cards are connected in a loop.');
+  }
+
+  return exchangeNodesToMarkdown(roots);
+}
@@ -0,0 +1,105 @@
+import { CheckboxState } from '../utils/outline';
+import { isCollapsed, NodeMarkers } from '../domain/node-markers';
+import { getNearestNodeColor, getNodeStyle, NODE_COLOR_HEX } from '../domain/node-style';
+import { escapeXmlAttribute } from './xml';
+import { ExchangeNode, exchangeNodesToMarkdown, getCentralNode, unwrapCentralNode } from './mindmap-exchange';
+
+// FreeMind and Freeplane have no tasks; done tasks get the `button_ok` icon and open tasks
+// Freeplane's `unchecked` icon. Node colors become the node's background color.
+
+const CHECKED_ICONS = ['button_ok', 'checked'];
+const UNCHECKED_ICONS = ['unchecked'];
+
+export function outlineToFreemind(roots: ExchangeNode[], title: string): string {
+  const lines: string[] = ['<map version="1.0.1">'];
+
+  const walk = (node: ExchangeNode, depth: number) => {
+    const pad = '  '.repeat(depth);
+    let attributes = `TEXT="${escapeXmlAttribute(node.text)}"`;
+    if (isCollapsed(node.markers) && node.children.length > 0) {
+      attributes += ' FOLDED="true"';
+    }
+    const { color } = getNodeStyle(node.markers);
+    if (color) {
+      attributes += ` BACKGROUND_COLOR="${NODE_COLOR_HEX[color]}"`;
+    }
+
+    const content: string[] = [];
+    if (node.checkbox !== 'none') {
+      content.push(`${pad}  <icon BUILTIN="${node.checkbox === 'checked' ? CHECKED_ICONS[0] : UNCHECKED_ICONS[0]}"/>`);
+    }
+    if (node.body) {
+      const paragraphs = node.body.split('\n').map((line) => `<p>${escapeXmlAttribute(line)}</p>`).join('');
+      content.push(`${pad}  <richcontent TYPE="NOTE"><html><head></head><body>${paragraphs}</body></html></richcontent>`);
+    }
+
+    if (content.length === 0 && node.children.length === 0) {
+      lines.push(`${pad}<node ${attributes}/>`);
+      return;
+    }
+
+    lines.push(`${pad}<node ${attributes}>`, ...content);
+    node.children.forEach((child) => walk(child, depth + 1));
+    lines.push(`${pad}</node>`);
+  };
+  walk(getCentralNode(roots, title), 1);
+
+  lines.push('</map>', '');
+  return lines.join('\n');
+}
+
+function childElements(parent: Element, tagName: string): Element[] {
+  return Array.from(parent.children).filter((child) => child.tagName === tagName);
+}
+
+function readRichContent(node: Element, type: string): string | null {
+  const rich = childElements(node, 'richcontent').find((element) => element.getAttribute('TYPE') === type);
+  if (!rich) return null;
+
+  const paragraphs = Array.from(rich.getElementsByTagName('p'));
+  const text = paragraphs.length > 0
+    ? paragraphs.map((paragraph) => (paragraph.textContent ?? '').trim()).join('\n')
+    : (rich.textContent ?? '');
+  return text.trim();
+}
+
+function readFreemindNode(node: Element): ExchangeNode {
+  const icons = childElements(node, 'icon').map((icon) => icon.getAttribute('BUILTIN') ?? '');
+  let checkbox: CheckboxState = 'none';
+  if (icons.some((icon) => CHECKED_ICONS.includes(icon))) checkbox = 'checked';
+  else if (icons.some((icon) => UNCHECKED_ICONS.includes(icon))) checkbox = 'unchecked';
+
+  const markers: NodeMarkers = {};
+  const children = childElements(node, 'node').map(readFreemindNode);
+  if (node.getAttribute('FOLDED') === 'true' && children.length > 0) {
+    markers.collapsed = true;
+  }
+  const color = getNearestNodeColor(node.getAttribute('BACKGROUND_COLOR') ?? '');
+  if (color) {
+    markers.color = color;
+  }
+
+  return {
+    text: node.getAttribute('TEXT') ?? readRichContent(node, 'NODE') ?? '',
+    checkbox,
+    body: readRichContent(node, 'NOTE') ?? '',
+    markers,
+    children,
+  };
+}
+
+/** Converts a FreeMind or Freeplane `.mm` file into a tab-indented Markdown outline. */
+export function freemindToMarkdown(xml: string, title: string): string {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML.');
+  }
+
+  const map = doc.documentElement;
+  const root = map.tagName === 'map' ? childElements(map, 'node')[0] : undefined;
+  if (!root) {
+    throw new Error('The file has no FreeMind map.');
+  }
+
+  return exchangeNodesToMarkdown(unwrapCentralNode(readFreemindNode(root), title));
+}
@@ -0,0 +1,188 @@
+import type { NodeSingular } from 'cytoscape';
+import { MindmapView } from '../view/mindmap-view';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PADDING = 20;
+// Room around each node for the task checkbox, which sits on the top-left corner
+const NODE_BLEED = 12;
+
+const INLINED_PROPERTIES = [
+  'display', 'position', 'top', 'right', 'bottom', 'left',
+  'width', 'height', 'min-width', 'min-height', 'max-width', 'box-sizing',
+  'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'border-top-width', 'border-right-width', 'border-bottom-width', 'border-left-width',
+  'border-top-style', 'border-right-style', 'border-bottom-style', 'border-left-style',
+  'border-top-color', 'border-right-color', 'border-bottom-color', 'border-left-color',
+  'border-top-left-radius', 'border-top-right-radius', 'border-bottom-right-radius', 'border-bottom-left-radius',
+  'background-color', 'color', 'opacity', 'overflow',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'line-height', 'letter-spacing',
+  'text-align', 'text-decoration-line', 'text-decoration-color', 'white-space', 'overflow-wrap',
+  'list-style-type', 'list-style-position', 'vertical-align',
+  'transform', 'transform-origin', 'align-items', 'justify-content', 'flex-direction',
+  'fill', 'stroke', 'stroke-width',
+];
+
+// Interaction-only state that must not end up in an exported picture
+const TRANSIENT_CLASSES = [
+  'selected', 'hovering', 'cut-pending', 'mm-src', 'mm-tgt', 'is-over-target', 'is-search-match', 'is-search-dimmed',
+];
+const INTERACTIVE_SELECTOR = '.node-controls, .mindmap-node-control, .mindmap-node-delete, .mindmap-fold-toggle';
+
+let colorContext: CanvasRenderingContext2D | null = null;
+
+/** Resolves modern color syntax such as color-mix() into hex/rgba so other SVG viewers understand it. */
+function normalizeColor(value: string): string {
+  colorContext ??= document.createElement('canvas').getContext('2d');
+  if (!colorContext || !value || value === 'transparent') return value;
+  colorContext.fillStyle = '#000000';
+  colorContext.fillStyle = value;
+  return colorContext.fillStyle;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function inlineStyles(source: Element, target: Element): void {
+  const computed = getComputedStyle(source);
+  const declarations = INLINED_PROPERTIES.map((property) => {
+    const value = computed.getPropertyValue(property);
+    return `${property}:${property.endsWith('color') ? normalizeColor(value) : value}`;
+  });
+  target.setAttribute('style', declarations.join(';'));
+
+  const sourceChildren = Array.from(source.children);
+  const targetChildren = Array.from(target.children);
+  sourceChildren.forEach((child, index) => {
+    if (targetChildren[index]) inlineStyles(child, targetChildren[index]);
+  });
+}
+
+function inlineImages(source: HTMLElement, target: HTMLElement): void {
+  const sourceImages = Array.from(source.querySelectorAll('img'));
+  const targetImages = Array.from(target.querySelectorAll('img'));
+  sourceImages.forEach((img, index) => {
+    const clone = targetImages[index];
+    if (!clone || !img.complete || img.naturalWidth === 0) return;
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      canvas.getContext('2d')?.drawImage(img, 0, 0);
+      clone.setAttribute('src', canvas.toDataURL('image/png'));
+    } catch {
+      // Images from other origins cannot be read back; they stay as links
+    }
+  });
+}
+
+function cloneOverlay(overlay: HTMLElement, width: number, height: number): HTMLElement {
+  const removed = TRANSIENT_CLASSES.filter((cls) => overlay.classList.contains(cls));
+  overlay.classList.remove(...removed);
+
+  const clone = overlay.cloneNode(true) as HTMLElement;
+  try {
+    inlineStyles(overlay, clone);
+    inlineImages(overlay, clone);
+  } finally {
+    overlay.classList.add(...removed);
+  }
+
+  clone.querySelectorAll(INTERACTIVE_SELECTOR).forEach((el) => el.remove());
+  if (!overlay.classList.contains('has-checkbox')) {
+    clone.querySelectorAll('.checkbox-toggle').forEach((el) => el.remove());
+  }
+
+  clone.removeAttribute('class');
+  clone.removeAttribute('data-overlay');
+  clone.style.position = 'relative';
+  clone.style.left = '0';
+  clone.style.top = '0';
+  clone.style.margin = `${NODE_BLEED}px`;
+  clone.style.transform = 'none';
+  clone.style.boxShadow = 'none';
+  clone.style.width = `${width}px`;
+  clone.style.height = `${height}px`;
+  return clone;
+}
+
+/** Builds a standalone SVG from the current layout, edges and rendered node overlays. */
+export function renderMindmapSvg(view: MindmapView): { svg: string; width: number; height: number } {
+  const cy = view.cy;
+  if (!cy || cy.nodes().length === 0) {
+    throw new Error('The mindmap is empty.');
+  }
+
+  const boxes: { node: NodeSingular; x: number; y: number; w: number; h: number }[] = [];
+  cy.nodes().forEach((node) => {
+    const line = node.data('node')?.line as number | undefined;
+    const dims = line !== undefined ? view.sizeMap.get(line) : undefined;
+    if (!dims) return;
+    const pos = node.position();
+    boxes.push({ node, x: pos.x - dims.w / 2, y: pos.y - dims.h / 2, w: dims.w, h: dims.h });
+  });
+
+  const minX = Math.min(...boxes.map((box) => box.x)) - PADDING - NODE_BLEED;
+  const minY = Math.min(...boxes.map((box) => box.y)) - PADDING - NODE_BLEED;
+  const maxX = Math.max(...boxes.map((box) => box.x + box.w)) + PADDING + NODE_BLEED;
+  const maxY = Math.max(...boxes.map((box) => box.y + box.h)) + PADDING + NODE_BLEED;
+  const width = Math.ceil(maxX - minX);
+  const height = Math.ceil(maxY - minY);
+
+  const background = normalizeColor(getComputedStyle(view.wrapper).getPropertyValue('--background-primary').trim() || '#ffffff');
+  const parts: string[] = [
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${escapeXml(background)}"/>`,
+  ];
+
+  cy.edges().forEach((edge) => {
+    const source = edge.sourceEndpoint();
+    const target = edge.targetEndpoint();
+    parts.push(
+      `<line x1="${source.x - minX}" y1="${source.y - minY}" x2="${target.x - minX}" y2="${target.y - minY}" stroke="#000000" stroke-width="1"/>`
+    );
+  });
+
+  const serializer = new XMLSerializer();
+  boxes.forEach(({ node, x, y, w, h }) => {
+    const line = node.data('node').line as number;
+    const overlay = view.wrapper.querySelector(`[data-overlay][data-node-line="${line}"]`) as HTMLElement | null;
+    if (!overlay) return;
+
+    const clone = cloneOverlay(overlay, w, h);
+    parts.push(
+      `<foreignObject x="${x - minX - NODE_BLEED}" y="${y - minY - NODE_BLEED}" width="${w + NODE_BLEED * 2}" height="${h + NODE_BLEED * 2}">`,
+      serializer.serializeToString(clone),
+      '</foreignObject>'
+    );
+  });
+
+  parts.push('</svg>');
+  return { svg: parts.join('\n'), width, height };
+}
+
+export async function rasterizeSvg(svg: string, width: number, height: number, scale: number): Promise<ArrayBuffer> {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error('The SVG could not be rasterized.'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('No canvas context available.');
+  }
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('The PNG could not be encoded.');
+  }
+  return await blob.arrayBuffer();
+}
@@ -0,0 +1,28 @@
+import { isCollapsed } from '../domain/node-markers';
+import { stripBlockId } from '../domain/node-identity';
+import { ExchangeNode, getCentralNode } from './mindmap-exchange';
+
+// Markmap draws the heading as the central topic and the list below it as branches.
+// Folded nodes carry Markmap's own fold comment; plugin markers and block ids are left out.
+
+const FOLD_COMMENT = ' <!-- markmap: fold -->';
+
+/** Writes the nodes as Markmap Markdown: a heading for the central topic and a nested list. */
+export function outlineToMarkmap(roots: ExchangeNode[], title: string): string {
+  const central = getCentralNode(roots, title);
+  const lines = [`# ${stripBlockId(central.text).trim()}`, ''];
+
+  const walk = (node: ExchangeNode, depth: number) => {
+    const indent = '  '.repeat(depth);
+    const checkbox = node.checkbox === 'checked' ? '[x] ' : node.checkbox === 'unchecked' ? '[ ] ' : '';
+    const fold = isCollapsed(node.markers) && node.children.length > 0 ? FOLD_COMMENT : '';
+    lines.push(`${indent}- ${checkbox}${stripBlockId(node.text).trim()}${fold}`);
+    if (node.body) {
+      lines.push(...node.body.split('\n').map((line) => (line.trim() ? `${indent}  ${line}` : '')));
+    }
+    node.children.forEach((child) => walk(child, depth + 1));
+  };
+  central.children.forEach((child) => walk(child, 0));
+
+  return lines.join('\n').replace(/\s+$/, '');
+}
@@ -0,0 +1,104 @@
+import { CheckboxState } from '../utils/outline';
+import { stripBlockId } from '../domain/node-identity';
+import { ExchangeNode, exchangeNodesToMarkdown, getCentralNode } from './mindmap-exchange';
+
+// Mermaid mindmap nodes are single lines, so bodies and plugin markers are left out. Tasks are
+// shown with a check mark or an empty box in front of the text and read back from it.
+
+const CHECKED_PREFIX = '✅ ';
+const UNCHECKED_PREFIX = '⬜ ';
+
+// Longer delimiters first, so `((circle))` is not read as `(rounded)`
+const SHAPES: Array<[string, string]> = [
+  ['((', '))'], ['))', '(('], ['(-', '-)'], ['{{', '}}'], ['(', ')'], [')', '('], ['[', ']'],
+];
+
+function formatMermaidText(node: ExchangeNode): string {
+  const prefix = node.checkbox === 'checked' ? CHECKED_PREFIX : node.checkbox === 'unchecked' ? UNCHECKED_PREFIX : '';
+  const text = `${prefix}${stripBlockId(node.text).trim()}`;
+  // Brackets and quotes would be read as a node shape, so such text is quoted
+  return text && !/[()[\]{}"]|^:{2}|^%%/.test(text) ? text : `["${text.replace(/"/g, '#quot;')}"]`;
+}
+
+/** Writes the nodes as a fenced Mermaid `mindmap` block. */
+export function outlineToMermaidMindmap(roots: ExchangeNode[], title: string): string {
+  const lines = ['```mermaid', 'mindmap'];
+  const walk = (node: ExchangeNode, depth: number) => {
+    lines.push(`${'  '.repeat(depth)}${formatMermaidText(node)}`);
+    node.children.forEach((child) => walk(child, depth + 1));
+  };
+  walk(getCentralNode(roots, title), 1);
+  lines.push('```');
+  return lines.join('\n');
+}
+
+function parseMermaidText(source: string): { text: string; checkbox: CheckboxState } {
+  let text = source;
+  for (const [open, close] of SHAPES) {
+    const start = source.indexOf(open);
+    const isShape = start !== -1 &&
+      !/\s/.test(source.slice(0, start)) &&
+      source.length >= start + open.length + close.length &&
+      source.endsWith(close);
+    if (isShape) {
+      text = source.slice(start + open.length, source.length - close.length).trim();
+      break;
+    }
+  }
+
+  text = text
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .replace(/^`([\s\S]*)`$/, '$1')
+    .replace(/#quot;/g, '"')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .trim();
+
+  if (text.startsWith(CHECKED_PREFIX)) return { text: text.slice(CHECKED_PREFIX.length), checkbox: 'checked' };
+  if (text.startsWith(UNCHECKED_PREFIX)) return { text: text.slice(UNCHECKED_PREFIX.length), checkbox: 'unchecked' };
+  return { text, checkbox: 'none' };
+}
+
+/**
+ * Converts a Mermaid `mindmap` diagram, fenced or not, into a tab-indented Markdown outline.
+ * Returns null when the text is not a mindmap diagram.
+ */
+export function mermaidMindmapToMarkdown(source: string): string | null {
+  let lines = source.split(/\r?\n/);
+  const skipBlank = () => {
+    while (lines.length > 0 && (lines[0].trim() === '' || lines[0].trim().startsWith('%%'))) lines.shift();
+  };
+
+  skipBlank();
+  if (/^\s*(```|~~~)\s*mermaid\s*$/.test(lines[0] ?? '')) {
+    const fence = lines[0].trim().slice(0, 3);
+    lines.shift();
+    const end = lines.findIndex((line) => line.trim().startsWith(fence));
+    if (end !== -1) lines = lines.slice(0, end);
+    skipBlank();
+  }
+  // Diagram config in frontmatter
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    lines = end === -1 ? [] : lines.slice(end + 1);
+    skipBlank();
+  }
+  if (lines[0]?.trim() !== 'mindmap') return null;
+
+  const roots: ExchangeNode[] = [];
+  const stack: Array<{ indent: number; node: ExchangeNode }> = [];
+  lines.slice(1).forEach((line) => {
+    const trimmed = line.trim();
+    // Icons and classes belong to the node above
+    if (!trimmed || trimmed.startsWith('%%') || trimmed.startsWith('::')) return;
+
+    const indent = (line.match(/^\s*/)?.[0] ?? '').replace(/\t/g, '    ').length;
+    const node: ExchangeNode = { ...parseMermaidText(trimmed), body: '', markers: {}, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+
+    const parent = stack[stack.length - 1]?.node;
+    (parent ? parent.children : roots).push(node);
+    stack.push({ indent, node });
+  });
+
+  return exchangeNodesToMarkdown(roots);
+}
@@ -0,0 +1,45 @@
+import { CheckboxState } from '../utils/outline';
+import { formatNodeMarkers, NodeMarkers } from '../domain/node-markers';
+import { formatBodyLines, preparePastedOutlineLines } from '../domain/outline-transforms';
+
+/** The parts of a node that mind map apps can hold; an `OutlineNode` is one as well. */
+export interface ExchangeNode {
+  text: string;
+  checkbox: CheckboxState;
+  body: string;
+  markers: NodeMarkers;
+  children: ExchangeNode[];
+}
+
+/**
+ * Mind map apps have a single central topic. A single root is used as it is; several roots
+ * are placed under a topic named after the file, which `unwrapCentralNode` removes again.
+ */
+export function getCentralNode(roots: ExchangeNode[], title: string): ExchangeNode {
+  if (roots.length === 1) return roots[0];
+  return { text: title, checkbox: 'none', body: '', markers: {}, children: roots };
+}
+
+export function unwrapCentralNode(root: ExchangeNode, title: string): ExchangeNode[] {
+  const isTitleOnly = root.text.trim() === title.trim() && !root.body && root.checkbox === 'none';
+  return isTitleOnly && root.children.length > 0 ? root.children : [root];
+}
+
+/** Writes the nodes as a tab-indented Markdown outline. */
+export function exchangeNodesToMarkdown(roots: ExchangeNode[]): string {
+  const rawLines: string[] = [];
+  const walk = (nodes: ExchangeNode[], depth: number) => {
+    nodes.forEach((node) => {
+      const text = node.text.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+      const checkbox = node.checkbox === 'checked' ? '[x] ' : node.checkbox === 'unchecked' ? '[ ] ' : '';
+      rawLines.push(
+        `${'\t'.repeat(depth)}- ${checkbox}${text}${formatNodeMarkers(node.markers)}`,
+        ...formatBodyLines('\t'.repeat(depth), '-', node.body.replace(/\r\n?/g, '\n').trim())
+      );
+      walk(node.children, depth + 1);
+    });
+  };
+  walk(roots, 0);
+
+  return preparePastedOutlineLines(rawLines.join('\n'), '').join('\n');
+}
@@ -0,0 +1,83 @@
+import { OutlineNode } from '../utils/outline';
+import { formatMarkerTokens, formatNodeMarkers, parseMarkerTokens } from '../domain/node-markers';
+import { formatBodyLines, preparePastedOutlineLines } from '../domain/outline-transforms';
+import { escapeXmlAttribute } from './xml';
+
+// OmniOutliner stores task state in `_status` and node bodies in `_note`; plugin markers
+// travel in `_eome` so fold state survives a round trip without showing up in other outliners.
+
+export function outlineToOpml(roots: OutlineNode[], title: string): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXmlAttribute(title)}</title>`,
+    '  </head>',
+    '  <body>',
+  ];
+
+  const walk = (nodes: OutlineNode[], depth: number) => {
+    nodes.forEach((node) => {
+      const pad = '  '.repeat(depth);
+      let attributes = `text="${escapeXmlAttribute(node.text)}"`;
+      if (node.checkbox !== 'none') {
+        attributes += ` _status="${node.checkbox}"`;
+      }
+      if (node.body) {
+        attributes += ` _note="${escapeXmlAttribute(node.body)}"`;
+      }
+      const markers = formatMarkerTokens(node.markers);
+      if (markers) {
+        attributes += ` _eome="${escapeXmlAttribute(markers)}"`;
+      }
+
+      if (node.children.length === 0) {
+        lines.push(`${pad}<outline ${attributes}/>`);
+        return;
+      }
+
+      lines.push(`${pad}<outline ${attributes}>`);
+      walk(node.children, depth + 1);
+      lines.push(`${pad}</outline>`);
+    });
+  };
+  walk(roots, 2);
+
+  lines.push('  </body>', '</opml>', '');
+  return lines.join('\n');
+}
+
+/** Converts an OPML document into a tab-indented Markdown outline. */
+export function opmlToMarkdown(xml: string): string {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML.');
+  }
+
+  const body = doc.getElementsByTagName('body')[0];
+  if (!body) {
+    throw new Error('The file has no OPML body.');
+  }
+
+  const rawLines: string[] = [];
+  const walk = (parent: Element, depth: number) => {
+    Array.from(parent.children)
+      .filter((child) => child.tagName === 'outline')
+      .forEach((outline) => {
+        const text = (outline.getAttribute('text') ?? outline.getAttribute('title') ?? '').replace(/\s*[\r\n]+\s*/g, ' ');
+        const status = outline.getAttribute('_status');
+        const checkbox = status === 'checked' ? '[x] ' : status === 'unchecked' ? '[ ] ' : '';
+        const markers = parseMarkerTokens(outline.getAttribute('_eome') ?? '');
+        const note = (outline.getAttribute('_note') ?? '').replace(/\r\n?/g, '\n').trim();
+
+        rawLines.push(
+          `${'\t'.repeat(depth)}- ${checkbox}${text}${formatNodeMarkers(markers)}`,
+          ...formatBodyLines('\t'.repeat(depth), '-', note)
+        );
+        walk(outline, depth + 1);
+      });
+  };
+  walk(body, 0);
+
+  return preparePastedOutlineLines(rawLines.join('\n'), '').join('\n');
+}
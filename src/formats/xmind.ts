@@ -0,0 +1,142 @@
+import { CheckboxState } from '../utils/outline';
+import { isCollapsed, NodeMarkers } from '../domain/node-markers';
+import { getNearestNodeColor, getNodeStyle, NODE_COLOR_HEX } from '../domain/node-style';
+import { ExchangeNode, exchangeNodesToMarkdown, getCentralNode, unwrapCentralNode } from './mindmap-exchange';
+import { createZip, readZip } from './zip';
+
+// XMind marks tasks with its task progress markers, `task-done` for done and `task-start`
+// for open tasks. Node colors become the topic's fill color.
+
+interface XmindTopic {
+  title?: string;
+  markers?: Array<{ markerId?: string }>;
+  notes?: { plain?: { content?: string } };
+  branch?: string;
+  style?: { properties?: Record<string, string> };
+  children?: { attached?: XmindTopic[] };
+}
+
+function getCheckbox(markerIds: string[]): CheckboxState {
+  if (markerIds.includes('task-done')) return 'checked';
+  return markerIds.some((id) => id.startsWith('task-')) ? 'unchecked' : 'none';
+}
+
+function getMarkers(folded: boolean, fill: string | undefined): NodeMarkers {
+  const markers: NodeMarkers = {};
+  if (folded) markers.collapsed = true;
+  const color = getNearestNodeColor(fill ?? '');
+  if (color) markers.color = color;
+  return markers;
+}
+
+/** Writes an XMind 2020+ file: a zip with the map as `content.json`. */
+export function outlineToXmind(roots: ExchangeNode[], title: string): Uint8Array {
+  let nextId = 0;
+  const toTopic = (node: ExchangeNode): Record<string, unknown> => {
+    const topic: Record<string, unknown> = { id: `eome-${++nextId}`, class: 'topic', title: node.text };
+    if (node.checkbox !== 'none') {
+      topic.markers = [{ markerId: node.checkbox === 'checked' ? 'task-done' : 'task-start' }];
+    }
+    if (node.body) {
+      topic.notes = { plain: { content: node.body } };
+    }
+    if (isCollapsed(node.markers) && node.children.length > 0) {
+      topic.branch = 'folded';
+    }
+    const { color } = getNodeStyle(node.markers);
+    if (color) {
+      topic.style = { id: `eome-style-${nextId}`, properties: { 'svg:fill': NODE_COLOR_HEX[color] } };
+    }
+    if (node.children.length > 0) {
+      topic.children = { attached: node.children.map(toTopic) };
+    }
+    return topic;
+  };
+
+  const content = [{
+    id: 'eome-sheet',
+    class: 'sheet',
+    title,
+    rootTopic: { ...toTopic(getCentralNode(roots, title)), structureClass: 'org.xmind.ui.map.unbalanced' },
+  }];
+  const encoder = new TextEncoder();
+  const json = (value: unknown) => encoder.encode(JSON.stringify(value));
+
+  return createZip([
+    { name: 'content.json', data: json(content) },
+    { name: 'metadata.json', data: json({ creator: { name: 'Excerpt-Outline-Mindmap-Editor' } }) },
+    { name: 'manifest.json', data: json({ 'file-entries': { 'content.json': {}, 'metadata.json': {} } }) },
+  ]);
+}
+
+function readJsonTopic(topic: XmindTopic): ExchangeNode {
+  const markerIds = (topic.markers ?? []).map((marker) => marker.markerId ?? '');
+  const children = (topic.children?.attached ?? []).map(readJsonTopic);
+
+  return {
+    text: topic.title ?? '',
+    checkbox: getCheckbox(markerIds),
+    body: topic.notes?.plain?.content ?? '',
+    markers: getMarkers(topic.branch === 'folded' && children.length > 0, topic.style?.properties?.['svg:fill']),
+    children,
+  };
+}
+
+function childElements(parent: Element, tagName: string): Element[] {
+  return Array.from(parent.children).filter((child) => child.tagName === tagName);
+}
+
+function childElementsAt(parent: Element, path: string[]): Element[] {
+  return path.reduce<Element[]>(
+    (elements, tagName) => ([] as Element[]).concat(...elements.map((element) => childElements(element, tagName))),
+    [parent]
+  );
+}
+
+// XMind 8 keeps colors in a separate styles.xml; they are not read
+function readXmlTopic(topic: Element): ExchangeNode {
+  const markerIds = childElementsAt(topic, ['marker-refs', 'marker-ref'])
+    .map((ref) => ref.getAttribute('marker-id') ?? '');
+  const notes = childElementsAt(topic, ['notes', 'plain'])[0];
+  const children = childElementsAt(topic, ['children', 'topics'])
+    .filter((topics) => topics.getAttribute('type') === 'attached')
+    .map((topics) => childElements(topics, 'topic'))
+    .reduce<Element[]>((all, topics) => all.concat(topics), [])
+    .map(readXmlTopic);
+
+  return {
+    text: childElements(topic, 'title')[0]?.textContent ?? '',
+    checkbox: getCheckbox(markerIds),
+    body: notes?.textContent ?? '',
+    markers: getMarkers(topic.getAttribute('branch') === 'folded' && children.length > 0, undefined),
+    children,
+  };
+}
+
+/** Converts the first sheet of an XMind file, new or XMind 8, into a tab-indented Markdown outline. */
+export async function xmindToMarkdown(data: Uint8Array, title: string): Promise<string> {
+  const files = await readZip(data);
+  const decoder = new TextDecoder();
+
+  const json = files.get('content.json');
+  if (json) {
+    const sheets = JSON.parse(decoder.decode(json)) as Array<{ rootTopic?: XmindTopic }>;
+    const rootTopic = Array.isArray(sheets) ? sheets[0]?.rootTopic : undefined;
+    if (!rootTopic) {
+      throw new Error('The file has no XMind sheet.');
+    }
+    return exchangeNodesToMarkdown(unwrapCentralNode(readJsonTopic(rootTopic), title));
+  }
+
+  const xml = files.get('content.xml');
+  if (!xml) {
+    throw new Error('The file has no XMind content.');
+  }
+  const doc = new DOMParser().parseFromString(decoder.decode(xml), 'text/xml');
+  const sheet = doc.getElementsByTagName('sheet')[0];
+  const rootTopic = sheet ? childElements(sheet, 'topic')[0] : undefined;
+  if (!rootTopic) {
+    throw new Error('The file has no XMind sheet.');
+  }
+  return exchangeNodesToMarkdown(unwrapCentralNode(readXmlTopic(rootTopic), title));
+}
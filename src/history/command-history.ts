@@ -1,8 +1,12 @@
 import { App, TFile } from 'obsidian';
 import { OutlineNode } from '../utils/outline';
+import { processDocument } from '../domain/mindmap-file';
+import { LinePatch, applyLinePatches, computeLinePatch, hashDocument, invertLinePatch } from './line-patch';
 
 export interface MindmapCommand {
-  type: 'add-child' | 'add-sibling' | 'edit-node' | 'delete-node' | 'delete-node-keep-children' | 'move-subtree' | 'add-child-text' | 'toggle-checkbox';
+  type: 'add-child' | 'add-sibling' | 'edit-node' | 'delete-node' | 'delete-node-keep-children' | 'move-subtree' | 'add-child-text' | 'toggle-checkbox' | 'toggle-collapse' |
+    'paste-nodes' | 'cut-paste-nodes' | 'convert-to-tasks' | 'indent-nodes' | 'outdent-nodes' | 'reorder-nodes' |
+    'convert-list' | 'style-nodes';
   timestamp: number;
   beforeState: string;
   afterState: string;
@@ -21,38 +25,114 @@ export interface MindmapCommand {
   metadata?: Record<string, unknown>;
 }
 
+/** What the history keeps of a command: the change as a line patch instead of two full documents. */
+export interface HistoryEntry extends Omit<MindmapCommand, 'beforeState' | 'afterState'> {
+  patch: LinePatch;
+}
+
+export const DEFAULT_HISTORY_DEPTH = 100;
+
+/** The history as stored in plugin data between sessions. */
+export interface HistoryState {
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  documentHash?: string | null;
+  /** When the history was last stored; the least recent ones are dropped first. */
+  savedAt?: number;
+}
+
+function quote(text: string): string {
+  const trimmed = text.trim() || 'empty node';
+  return `"${trimmed.length > 30 ? `${trimmed.substring(0, 29)}…` : trimmed}"`;
+}
+
+function nodes(count: number): string {
+  return count === 1 ? '1 node' : `${count} nodes`;
+}
+
+/** Lower-case label of a step, such as `add child to "Ideas"`. */
+export function describeCommand(command: Pick<MindmapCommand, 'type' | 'nodeInfo' | 'targetInfo' | 'metadata'>): string {
+  const node = quote(command.nodeInfo.text);
+  const metadata = command.metadata ?? {};
+  const count = typeof metadata.count === 'number' ? metadata.count : 1;
+
+  switch (command.type) {
+    case 'add-child':
+      return `add child to ${node}`;
+    case 'add-sibling':
+      return metadata.duplicated ? `duplicate ${node}` : `add sibling to ${node}`;
+    case 'edit-node':
+      return `edit ${node}`;
+    case 'toggle-checkbox':
+      return metadata.checkboxAfter === 'checked' ? `check ${node}` : `uncheck ${node}`;
+    case 'delete-node':
+      return count > 1 ? `delete ${nodes(count)}` : `delete ${node}`;
+    case 'delete-node-keep-children':
+      return `${count > 1 ? `delete ${nodes(count)}` : `delete ${node}`} (kept children)`;
+    case 'move-subtree':
+      return command.targetInfo ? `move ${node} to ${quote(command.targetInfo.text)}` : `move ${node}`;
+    case 'add-child-text':
+      return `add text to ${node}`;
+    case 'paste-nodes':
+      return `paste ${nodes(count)} into ${node}`;
+    case 'cut-paste-nodes':
+      return `move ${nodes(count)} into ${command.targetInfo ? quote(command.targetInfo.text) : node}`;
+    case 'convert-to-tasks':
+      return metadata.checked ? `mark ${nodes(count)} as done tasks` : `turn ${nodes(count)} into tasks`;
+    case 'indent-nodes':
+      return count > 1 ? `indent ${nodes(count)}` : `indent ${node}`;
+    case 'outdent-nodes':
+      return count > 1 ? `outdent ${nodes(count)}` : `outdent ${node}`;
+    case 'reorder-nodes':
+      return `move ${count > 1 ? nodes(count) : node} ${metadata.direction === 'down' ? 'down' : 'up'}`;
+    case 'convert-list':
+      return metadata.ordered ? `number the list under ${node}` : `use bullets under ${node}`;
+    case 'style-nodes':
+      return count > 1 ? `style ${nodes(count)}` : `style ${node}`;
+    case 'toggle-collapse':
+      if (typeof metadata.level === 'number') {
+        return metadata.level === 0 ? 'expand all' : `collapse to level ${metadata.level}`;
+      }
+      if (typeof metadata.collapsed === 'boolean') {
+        const action = metadata.collapsed ? 'collapse' : 'expand';
+        return count > 1 ? `${action} ${nodes(count)}` : `${action} ${node}`;
+      }
+      return `fold change on ${node}`;
+    default:
+      return 'last action';
+  }
+}
+
 export class CommandHistory {
-  private history: MindmapCommand[] = [];
+  private history: HistoryEntry[] = [];
   private currentIndex: number = -1;
-  private maxHistorySize: number = 20; // Limit to 20 commands
-  private maxContentLength: number = 50000; // Limit content size per command
-  
-  constructor(private app: App) {}
+  // Fingerprint of the document right after the last recorded, undone or redone step
+  private documentHash: string | null = null;
+
+  constructor(private app: App, private getMaxHistorySize: () => number = () => DEFAULT_HISTORY_DEPTH) {}
 
   public executeCommand(command: MindmapCommand): void {
-    // Limit content length to prevent huge frontmatter
-    const truncatedCommand = {
-      ...command,
-      beforeState: command.beforeState.length > this.maxContentLength 
-        ? command.beforeState.substring(0, this.maxContentLength) + '...[truncated]'
-        : command.beforeState,
-      afterState: command.afterState.length > this.maxContentLength
-        ? command.afterState.substring(0, this.maxContentLength) + '...[truncated]'
-        : command.afterState
-    };
+    const { beforeState, afterState, ...info } = command;
+    // Edits whose write failed come back unchanged and are not steps
+    if (beforeState === afterState) return;
     
     // Remove any commands after current index
     this.history.splice(this.currentIndex + 1);
     
     // Add new command
-    this.history.push(truncatedCommand);
+    this.history.push({ ...info, patch: computeLinePatch(beforeState, afterState) });
     this.currentIndex = this.history.length - 1;
+    this.documentHash = hashDocument(afterState);
     
-    // Limit history size
-    if (this.history.length > this.maxHistorySize) {
-      const removeCount = this.history.length - this.maxHistorySize;
+    this.trimHistory();
+  }
+
+  private trimHistory(): void {
+    const maxHistorySize = Math.max(1, Math.floor(this.getMaxHistorySize()));
+    if (this.history.length > maxHistorySize) {
+      const removeCount = this.history.length - maxHistorySize;
       this.history.splice(0, removeCount);
-      this.currentIndex -= removeCount;
+      this.currentIndex = Math.max(-1, this.currentIndex - removeCount);
     }
   }
 
@@ -64,107 +144,89 @@ export class CommandHistory {
     return this.currentIndex < this.history.length - 1;
   }
 
+  /**
+   * Reverts the last command in the file's current text. If the file changed since, the change
+   * is reverted around those edits; throws without touching the file when it can't be.
+   */
   public async undo(file: TFile): Promise<string | null> {
     if (!this.canUndo()) return null;
-
-    const command = this.history[this.currentIndex];
-    
-    // Move to redo stack
-    this.currentIndex--;
-    
-    // Restore previous state
-    try {
-      await this.app.vault.modify(file, command.beforeState);
-      return command.beforeState;
-    } catch (error) {
-      console.error('Undo failed:', error);
-      // Move command back to current index if restore failed
-      this.currentIndex++;
-      return null;
-    }
+    return this.goTo(file, this.currentIndex - 1);
   }
 
+  /** Re-applies the next command; throws like `undo` when it no longer applies. */
   public async redo(file: TFile): Promise<string | null> {
     if (!this.canRedo()) return null;
+    return this.goTo(file, this.currentIndex + 1);
+  }
 
-    const command = this.history[this.currentIndex + 1];
-    
-    // Move back to undo stack
-    this.currentIndex++;
-    
-    // Restore next state
-    try {
-      await this.app.vault.modify(file, command.afterState);
-      return command.afterState;
-    } catch (error) {
-      console.error('Redo failed:', error);
-      // Move command back to current index if restore failed
-      this.currentIndex--;
-      return null;
-    }
+  /**
+   * Undoes or redoes steps until `index` is the last applied one (-1 for before the first step)
+   * and writes the file once. Throws like `undo` if any of the steps no longer applies.
+   */
+  public async goTo(file: TFile, index: number): Promise<string | null> {
+    const target = Math.max(-1, Math.min(index, this.history.length - 1));
+    if (target === this.currentIndex) return null;
+
+    const action = target < this.currentIndex ? 'undo' : 'redo';
+    const patches = action === 'undo'
+      ? this.history.slice(target + 1, this.currentIndex + 1).reverse().map((entry) => invertLinePatch(entry.patch))
+      : this.history.slice(this.currentIndex + 1, target + 1).map((entry) => entry.patch);
+
+    const { after: newDoc } = await processDocument(this.app, file, (currentDoc) => {
+      const diverged = this.hasDiverged(currentDoc);
+      try {
+        return applyLinePatches(currentDoc, patches, diverged);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const cause = diverged ? 'the file was changed outside the mindmap and ' : '';
+        throw new Error(`Cannot ${action}: ${cause}${reason}.`);
+      }
+    });
+
+    this.currentIndex = target;
+    this.documentHash = hashDocument(newDoc);
+    return newDoc;
+  }
+
+  /** True if the document was changed by something other than this history since its last step. */
+  public hasDiverged(currentDoc: string): boolean {
+    return this.documentHash !== null && this.documentHash !== hashDocument(currentDoc);
   }
 
   public getUndoDescription(): string | null {
     if (!this.canUndo()) return null;
-    
-    const command = this.history[this.currentIndex];
-    switch (command.type) {
-      case 'add-child':
-        return `Undo add child to "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'add-sibling':
-        return `Undo add sibling to "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'edit-node':
-        return `Undo edit "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'delete-node':
-        return `Undo delete "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'delete-node-keep-children':
-        return `Undo delete node "${command.nodeInfo.text.substring(0, 20)}..." (kept children)`;
-      case 'move-subtree':
-        return `Undo move "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'add-child-text':
-        return `Undo add text child to "${command.nodeInfo.text.substring(0, 20)}..."`;
-      default:
-        return 'Undo last action';
-    }
+    return `Undo ${describeCommand(this.history[this.currentIndex])}`;
   }
 
   public getRedoDescription(): string | null {
     if (!this.canRedo()) return null;
-    
-    const command = this.history[this.currentIndex + 1];
-    switch (command.type) {
-      case 'add-child':
-        return `Redo add child to "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'add-sibling':
-        return `Redo add sibling to "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'edit-node':
-        return `Redo edit "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'delete-node':
-        return `Redo delete "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'delete-node-keep-children':
-        return `Redo delete node "${command.nodeInfo.text.substring(0, 20)}..." (kept children)`;
-      case 'move-subtree':
-        return `Redo move "${command.nodeInfo.text.substring(0, 20)}..."`;
-      case 'add-child-text':
-        return `Redo add text child to "${command.nodeInfo.text.substring(0, 20)}..."`;
-      default:
-        return 'Redo last action';
-    }
+    return `Redo ${describeCommand(this.history[this.currentIndex + 1])}`;
+  }
+
+  /** Index of the last applied entry in `getHistoryState()`'s combined stacks, -1 before the first. */
+  public getCurrentIndex(): number {
+    return this.currentIndex;
   }
 
   public clear(): void {
     this.history = [];
     this.currentIndex = -1;
+    this.documentHash = null;
+  }
+
+  public isEmpty(): boolean {
+    return this.history.length === 0;
   }
 
-  public getHistoryState(): { undoStack: MindmapCommand[]; redoStack: MindmapCommand[] } {
+  public getHistoryState(): HistoryState {
     return {
       undoStack: this.history.slice(0, this.currentIndex + 1),
-      redoStack: this.history.slice(this.currentIndex + 1)
+      redoStack: this.history.slice(this.currentIndex + 1),
+      documentHash: this.documentHash,
     };
   }
 
-  public restoreHistoryState(state: { undoStack: MindmapCommand[]; redoStack: MindmapCommand[] }): void {
+  public restoreHistoryState(state: HistoryState): void {
     // Validate the state object and arrays before restoring
     if (!state || typeof state !== 'object') {
       console.warn('Invalid history state object, initializing empty history');
@@ -172,11 +234,15 @@ export class CommandHistory {
       return;
     }
     
-    const undoStack = Array.isArray(state.undoStack) ? state.undoStack : [];
-    const redoStack = Array.isArray(state.redoStack) ? state.redoStack : [];
+    // Entries from versions that stored full documents have no patch and are dropped
+    const isEntry = (entry: HistoryEntry) => !!entry && Array.isArray(entry.patch);
+    const undoStack = Array.isArray(state.undoStack) ? state.undoStack.filter(isEntry) : [];
+    const redoStack = Array.isArray(state.redoStack) ? state.redoStack.filter(isEntry) : [];
     
     this.history = [...undoStack, ...redoStack];
     this.currentIndex = undoStack.length - 1;
+    this.documentHash = typeof state.documentHash === 'string' ? state.documentHash : null;
+    this.trimHistory();
   }
 
   public static createNodeInfo(node: OutlineNode): { line: number; text: string; indent: string; marker: string } {
@@ -0,0 +1,37 @@
+import type { HistoryEntry, HistoryState } from './command-history';
+
+// Plugin data is synced to every device, so only the histories of the files used most recently
+// are stored, each with as many of its latest steps as fit the byte limit.
+
+export const MAX_STORED_HISTORIES = 30;
+export const MAX_STORED_HISTORY_BYTES = 200 * 1024;
+
+const jsonSize = (value: unknown) => JSON.stringify(value).length;
+
+/** Drops the oldest undo steps, then the furthest redo steps, until the stored history fits in `maxBytes`. */
+export function fitHistoryState(state: HistoryState, maxBytes: number = MAX_STORED_HISTORY_BYTES): HistoryState {
+  const undoStack = [...state.undoStack];
+  const redoStack = [...state.redoStack];
+  // Each entry also needs a separating comma
+  const entrySize = (entry: HistoryEntry) => jsonSize(entry) + 1;
+  let size = jsonSize(state);
+
+  while (size > maxBytes && undoStack.length + redoStack.length > 0) {
+    size -= entrySize(undoStack.length > 0 ? undoStack.shift()! : redoStack.pop()!);
+  }
+  return { ...state, undoStack, redoStack };
+}
+
+/** Keeps the `maxFiles` histories that were saved most recently. */
+export function pruneHistories(
+  histories: Record<string, HistoryState>,
+  maxFiles: number = MAX_STORED_HISTORIES
+): Record<string, HistoryState> {
+  return Object.keys(histories)
+    .sort((a, b) => (histories[b].savedAt ?? 0) - (histories[a].savedAt ?? 0))
+    .slice(0, maxFiles)
+    .reduce<Record<string, HistoryState>>((kept, path) => {
+      kept[path] = histories[path];
+      return kept;
+    }, {});
+}
@@ -0,0 +1,224 @@
+/** One changed region: `removed` lines at `oldStart` were replaced by `added` lines at `newStart`. */
+export interface LineHunk {
+  oldStart: number;
+  newStart: number;
+  removed: string[];
+  added: string[];
+  /** Unchanged lines around the hunk, used to find it again after the document shifted. */
+  contextBefore?: string[];
+  contextAfter?: string[];
+}
+
+export type LinePatch = LineHunk[];
+
+const CONTEXT_LINES = 2;
+
+// Above this many line pairs the changed region is stored as a single hunk instead of being diffed
+const MAX_DIFF_CELLS = 250000;
+
+function splitLines(doc: string): string[] {
+  return doc.split('\n');
+}
+
+/** Splits the changed middle section into hunks along its longest common subsequence. */
+function diffMiddle(before: string[], after: string[], oldOffset: number, newOffset: number): LinePatch {
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [{ oldStart: oldOffset, newStart: newOffset, removed: before, added: after }];
+  }
+
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = before[i] === after[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const hunks: LinePatch = [];
+  let current: LineHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+
+    if (!current) {
+      current = { oldStart: oldOffset + i, newStart: newOffset + j, removed: [], added: [] };
+      hunks.push(current);
+    }
+    if (j >= after.length || (i < before.length && lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1])) {
+      current.removed.push(before[i++]);
+    } else {
+      current.added.push(after[j++]);
+    }
+  }
+
+  return hunks;
+}
+
+/** Line-level patch that turns `before` into `after`. */
+export function computeLinePatch(before: string, after: string): LinePatch {
+  if (before === after) return [];
+
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const hunks = diffMiddle(
+    oldLines.slice(prefix, oldLines.length - suffix),
+    newLines.slice(prefix, newLines.length - suffix),
+    prefix,
+    prefix
+  );
+
+  // Context stops at neighbouring hunks so it is the same in both documents
+  hunks.forEach((hunk, index) => {
+    const previous = hunks[index - 1];
+    const next = hunks[index + 1];
+    const previousEnd = previous ? previous.oldStart + previous.removed.length : 0;
+    const end = hunk.oldStart + hunk.removed.length;
+    const nextStart = next ? next.oldStart : oldLines.length;
+    hunk.contextBefore = oldLines.slice(Math.max(previousEnd, hunk.oldStart - CONTEXT_LINES), hunk.oldStart);
+    hunk.contextAfter = oldLines.slice(end, Math.min(nextStart, end + CONTEXT_LINES));
+  });
+
+  return hunks;
+}
+
+export function invertLinePatch(patch: LinePatch): LinePatch {
+  return patch.map((hunk) => ({
+    oldStart: hunk.newStart,
+    newStart: hunk.oldStart,
+    removed: hunk.added,
+    added: hunk.removed,
+    contextBefore: hunk.contextBefore,
+    contextAfter: hunk.contextAfter,
+  }));
+}
+
+function matchesAt(lines: string[], hunk: LineHunk, start: number): boolean {
+  const before = hunk.contextBefore ?? [];
+  const after = hunk.contextAfter ?? [];
+  const from = start - before.length;
+  const expected = [...before, ...hunk.removed, ...after];
+  if (from < 0 || from + expected.length > lines.length) return false;
+  return expected.every((line, offset) => lines[from + offset] === line);
+}
+
+/** Applies the patch at its line numbers; throws if the lines it replaces or their context are not there. */
+export function applyLinePatch(doc: string, patch: LinePatch): string {
+  const lines = splitLines(doc);
+
+  // Later hunks first, so earlier line numbers stay valid
+  for (let index = patch.length - 1; index >= 0; index--) {
+    const hunk = patch[index];
+    const matches = matchesAt(lines, hunk, hunk.oldStart);
+    if (!matches) {
+      throw new Error(`the document no longer matches at line ${hunk.oldStart + 1}`);
+    }
+    lines.splice(hunk.oldStart, hunk.removed.length, ...hunk.added);
+  }
+
+  return lines.join('\n');
+}
+
+/** The same hunk with less context, for finding it when the lines next to it were edited too. */
+function withFuzz(hunk: LineHunk): LineHunk[] {
+  const variants = [
+    hunk,
+    { ...hunk, contextAfter: [] },
+    { ...hunk, contextBefore: [] },
+  ];
+  // Without any context only the replaced lines themselves can anchor the hunk
+  if (hunk.removed.length > 0) variants.push({ ...hunk, contextBefore: [], contextAfter: [] });
+  return variants;
+}
+
+function findHunk(lines: string[], hunk: LineHunk, expected: number, minStart: number): number {
+  for (let distance = 0; expected - distance >= minStart || expected + distance <= lines.length; distance++) {
+    if (expected + distance <= lines.length && matchesAt(lines, hunk, expected + distance)) {
+      return expected + distance;
+    }
+    if (distance > 0 && expected - distance >= minStart && matchesAt(lines, hunk, expected - distance)) {
+      return expected - distance;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Moves each hunk to where its lines are now, preferring full context and the spot closest to
+ * where they were. Throws if a hunk's own lines were changed or removed.
+ */
+export function rebaseLinePatch(doc: string, patch: LinePatch): LinePatch {
+  const lines = splitLines(doc);
+  const rebased: LinePatch = [];
+  let shift = 0;
+  let minStart = 0;
+
+  patch.forEach((hunk) => {
+    const expected = Math.max(minStart, Math.min(lines.length, hunk.oldStart + shift));
+    let found = -1;
+    for (const variant of withFuzz(hunk)) {
+      found = findHunk(lines, variant, expected, minStart);
+      if (found >= 0) break;
+    }
+    if (found < 0) {
+      throw new Error(`the lines around line ${hunk.oldStart + 1} were changed`);
+    }
+
+    shift = found - hunk.oldStart;
+    minStart = found + hunk.removed.length;
+    // Only the hunk's own lines are checked when it is applied
+    rebased.push({ ...hunk, oldStart: found, newStart: hunk.newStart + shift, contextBefore: [], contextAfter: [] });
+  });
+
+  return rebased;
+}
+
+/**
+ * Applies the patches one after another. When `doc` is not the text they were recorded on
+ * (`diverged`), or a patch no longer fits at its line numbers, it is first moved to where its
+ * lines are now. Throws like `rebaseLinePatch` when a patch can't be placed.
+ */
+export function applyLinePatches(doc: string, patches: LinePatch[], diverged: boolean): string {
+  return patches.reduce((current, patch) => {
+    if (!diverged) {
+      try {
+        return applyLinePatch(current, patch);
+      } catch {
+        // Line numbers can be stale after an earlier step was applied around outside edits
+      }
+    }
+    return applyLinePatch(current, rebaseLinePatch(current, patch));
+  }, doc);
+}
+
+/** Short fingerprint used to notice that a document changed. */
+export function hashDocument(doc: string): string {
+  let hash = 5381;
+  for (let i = 0; i < doc.length; i++) {
+    hash = ((hash << 5) + hash + doc.charCodeAt(i)) | 0;
+  }
+  return `${doc.length}:${(hash >>> 0).toString(36)}`;
+}
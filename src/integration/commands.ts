@@ -0,0 +1,168 @@
+import { MarkdownView, TFile } from 'obsidian';
+import MindmapPlugin from '../main';
+import { MindmapView } from '../view/mindmap-view';
+import { MINDMAP_VIEW_ACTIONS } from '../view/view-actions';
+import { FileSuggestModal } from '../ui/modals/file-suggest-modal';
+import {
+  exportFileAsFreemind,
+  exportFileAsOpml,
+  exportFileAsXmind,
+  importCanvasFile,
+  importFreemindFile,
+  importOpmlFile,
+  importXmindFile,
+} from './outline-transfer';
+
+function getActiveOutlineFile(plugin: MindmapPlugin): TFile | null {
+  const { workspace } = plugin.app;
+  return workspace.getActiveViewOfType(MindmapView)?.file ?? workspace.getActiveViewOfType(MarkdownView)?.file ?? null;
+}
+
+export function registerMindmapCommands(plugin: MindmapPlugin): void {
+  plugin.addCommand({
+    id: 'open-as-mindmap',
+    name: 'Open current note as mindmap',
+    checkCallback: (checking) => {
+      const file = plugin.app.workspace.getActiveViewOfType(MarkdownView)?.file;
+      if (!file) return false;
+      if (!checking) void plugin.openMindmapReplacingLeaf(file);
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: 'open-in-editor',
+    name: 'Open current mindmap in editor',
+    checkCallback: (checking) => {
+      const file = plugin.app.workspace.getActiveViewOfType(MindmapView)?.file;
+      if (!file) return false;
+      if (!checking) void plugin.openMarkdownReplacingLeaf(file);
+      return true;
+    },
+  });
+
+  // Registered without hotkeys: the mindmap applies its own defaults while it has focus,
+  // and hotkeys assigned here take over from them.
+  MINDMAP_VIEW_ACTIONS.forEach((action) => {
+    plugin.addCommand({
+      id: action.id,
+      name: action.name,
+      checkCallback: (checking) => {
+        const view = plugin.app.workspace.getActiveViewOfType(MindmapView);
+        if (!view || !action.isAvailable(view)) return false;
+        if (!checking) action.run(view);
+        return true;
+      },
+    });
+  });
+
+  plugin.addCommand({
+    id: 'export-svg',
+    name: 'Export mindmap as SVG',
+    checkCallback: (checking) => {
+      const view = plugin.app.workspace.getActiveViewOfType(MindmapView);
+      if (!view) return false;
+      if (!checking) void view.exportAsSvg();
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: 'export-png',
+    name: 'Export mindmap as PNG',
+    checkCallback: (checking) => {
+      const view = plugin.app.workspace.getActiveViewOfType(MindmapView);
+      if (!view) return false;
+      if (!checking) view.openPngExport();
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: 'export-canvas',
+    name: 'Export mindmap as canvas',
+    checkCallback: (checking) => {
+      const view = plugin.app.workspace.getActiveViewOfType(MindmapView);
+      if (!view) return false;
+      if (!checking) void view.exportAsCanvas();
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: 'export-opml',
+    name: 'Export outline as OPML',
+    checkCallback: (checking) => {
+      const file = getActiveOutlineFile(plugin);
+      if (!file) return false;
+      if (!checking) void exportFileAsOpml(plugin, file);
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: 'import-opml',
+    name: 'Import OPML file as mindmap',
+    callback: () => {
+      const files = plugin.app.vault.getFiles().filter((file) => file.extension === 'opml');
+      new FileSuggestModal(plugin.app, files, 'Choose an OPML file to import', (file) => {
+        void importOpmlFile(plugin, file);
+      }).open();
+    },
+  });
+
+  plugin.addCommand({
+    id: 'export-freemind',
+    name: 'Export mindmap as FreeMind',
+    checkCallback: (checking) => {
+      const file = getActiveOutlineFile(plugin);
+      if (!file) return false;
+      if (!checking) void exportFileAsFreemind(plugin, file);
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: 'export-xmind',
+    name: 'Export mindmap as XMind',
+    checkCallback: (checking) => {
+      const file = getActiveOutlineFile(plugin);
+      if (!file) return false;
+      if (!checking) void exportFileAsXmind(plugin, file);
+      return true;
+    },
+  });
+
+  plugin.addCommand({
+    id: 'import-freemind',
+    name: 'Import FreeMind file as mindmap',
+    callback: () => {
+      const files = plugin.app.vault.getFiles().filter((file) => file.extension === 'mm');
+      new FileSuggestModal(plugin.app, files, 'Choose a FreeMind file to import', (file) => {
+        void importFreemindFile(plugin, file);
+      }).open();
+    },
+  });
+
+  plugin.addCommand({
+    id: 'import-xmind',
+    name: 'Import XMind file as mindmap',
+    callback: () => {
+      const files = plugin.app.vault.getFiles().filter((file) => file.extension === 'xmind');
+      new FileSuggestModal(plugin.app, files, 'Choose an XMind file to import', (file) => {
+        void importXmindFile(plugin, file);
+      }).open();
+    },
+  });
+
+  plugin.addCommand({
+    id: 'import-canvas',
+    name: 'Import canvas as mindmap',
+    callback: () => {
+      const files = plugin.app.vault.getFiles().filter((file) => file.extension === 'canvas');
+      new FileSuggestModal(plugin.app, files, 'Choose a canvas to import', (file) => {
+        void importCanvasFile(plugin, file);
+      }).open();
+    },
+  });
+}
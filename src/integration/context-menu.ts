@@ -1,6 +1,26 @@
 import { Menu, TFile } from 'obsidian';
 import MindmapPlugin from '../main';
 import { VIEW_TYPE_MINDMAP } from '../constants';
+import {
+  exportFileAsFreemind,
+  exportFileAsOpml,
+  exportFileAsXmind,
+  importCanvasFile,
+  importFreemindFile,
+  importOpmlFile,
+  importXmindFile,
+} from './outline-transfer';
+
+const IMPORTERS: Record<string, { title: string; run: (plugin: MindmapPlugin, file: TFile) => Promise<void> }> = {
+  opml: { title: 'Import OPML as Mindmap', run: importOpmlFile },
+  mm: { title: 'Import FreeMind as Mindmap', run: importFreemindFile },
+  xmind: { title: 'Import XMind as Mindmap', run: importXmindFile },
+  canvas: { title: 'Import Canvas as Mindmap', run: importCanvasFile },
+};
+
+export function isImportableOutlineFile(file: TFile): boolean {
+  return file.extension in IMPORTERS;
+}
 
 export function addToggleMindmapMenuItem(
   menu: Menu,
@@ -33,3 +53,49 @@ export function addToggleMindmapMenuItem(
     });
   }
 }
+
+export function addOutlineTransferMenuItems(
+  menu: Menu,
+  plugin: MindmapPlugin,
+  file: TFile
+) {
+  const importer = IMPORTERS[file.extension];
+  if (importer) {
+    menu.addItem((item) => {
+      item
+        .setTitle(importer.title)
+        .setIcon('file-input')
+        .onClick(async () => {
+          await importer.run(plugin, file);
+        });
+    });
+    return;
+  }
+
+  menu.addItem((item) => {
+    item
+      .setTitle('Export as OPML')
+      .setIcon('file-output')
+      .onClick(async () => {
+        await exportFileAsOpml(plugin, file);
+      });
+  });
+
+  menu.addItem((item) => {
+    item
+      .setTitle('Export as FreeMind')
+      .setIcon('file-output')
+      .onClick(async () => {
+        await exportFileAsFreemind(plugin, file);
+      });
+  });
+
+  menu.addItem((item) => {
+    item
+      .setTitle('Export as XMind')
+      .setIcon('file-output')
+      .onClick(async () => {
+        await exportFileAsXmind(plugin, file);
+      });
+  });
+}
@@ -0,0 +1,77 @@
+import { Notice, TFile } from 'obsidian';
+import MindmapPlugin from '../main';
+import { parseOutline } from '../utils/outline';
+import { getAvailableFilePath } from '../utils/vault-files';
+import { outlineToOpml, opmlToMarkdown } from '../formats/opml';
+import { freemindToMarkdown, outlineToFreemind } from '../formats/freemind';
+import { outlineToXmind, xmindToMarkdown } from '../formats/xmind';
+import { canvasToMarkdown } from '../formats/canvas';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function exportFileAsOpml(plugin: MindmapPlugin, file: TFile): Promise<void> {
+  try {
+    const markdown = await plugin.app.vault.read(file);
+    const opml = outlineToOpml(parseOutline(markdown), file.basename);
+    const path = getAvailableFilePath(plugin.app, file.parent?.path ?? '', file.basename, 'opml');
+    await plugin.app.vault.create(path, opml);
+    new Notice(`Exported outline to ${path}`);
+  } catch (error) {
+    new Notice(`Could not export ${file.name} as OPML: ${errorMessage(error)}`);
+  }
+}
+
+export async function exportFileAsFreemind(plugin: MindmapPlugin, file: TFile): Promise<void> {
+  try {
+    const markdown = await plugin.app.vault.read(file);
+    const xml = outlineToFreemind(parseOutline(markdown), file.basename);
+    const path = getAvailableFilePath(plugin.app, file.parent?.path ?? '', file.basename, 'mm');
+    await plugin.app.vault.create(path, xml);
+    new Notice(`Exported mindmap to ${path}`);
+  } catch (error) {
+    new Notice(`Could not export ${file.name} as FreeMind: ${errorMessage(error)}`);
+  }
+}
+
+export async function exportFileAsXmind(plugin: MindmapPlugin, file: TFile): Promise<void> {
+  try {
+    const markdown = await plugin.app.vault.read(file);
+    const data = outlineToXmind(parseOutline(markdown), file.basename);
+    const path = getAvailableFilePath(plugin.app, file.parent?.path ?? '', file.basename, 'xmind');
+    await plugin.app.vault.createBinary(path, data.buffer);
+    new Notice(`Exported mindmap to ${path}`);
+  } catch (error) {
+    new Notice(`Could not export ${file.name} as XMind: ${errorMessage(error)}`);
+  }
+}
+
+async function importAsMindmap(plugin: MindmapPlugin, file: TFile, toMarkdown: () => Promise<string>): Promise<void> {
+  try {
+    const markdown = await toMarkdown();
+    const path = getAvailableFilePath(plugin.app, file.parent?.path ?? '', file.basename, 'md');
+    const created = await plugin.app.vault.create(path, markdown);
+    await plugin.openMindmapReplacingLeaf(created);
+  } catch (error) {
+    new Notice(`Could not import ${file.name}: ${errorMessage(error)}`);
+  }
+}
+
+export async function importOpmlFile(plugin: MindmapPlugin, file: TFile): Promise<void> {
+  await importAsMindmap(plugin, file, async () => opmlToMarkdown(await plugin.app.vault.read(file)));
+}
+
+export async function importFreemindFile(plugin: MindmapPlugin, file: TFile): Promise<void> {
+  await importAsMindmap(plugin, file, async () => freemindToMarkdown(await plugin.app.vault.read(file), file.basename));
+}
+
+export async function importXmindFile(plugin: MindmapPlugin, file: TFile): Promise<void> {
+  await importAsMindmap(plugin, file, async () => (
+    xmindToMarkdown(new Uint8Array(await plugin.app.vault.readBinary(file)), file.basename)
+  ));
+}
+
+export async function importCanvasFile(plugin: MindmapPlugin, file: TFile): Promise<void> {
+  await importAsMindmap(plugin, file, async () => canvasToMarkdown(await plugin.app.vault.read(file)));
+}
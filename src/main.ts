@@ -5,25 +5,42 @@ import {
   MarkdownView,
   Menu,
   View,
+  TAbstractFile,
+  debounce,
 } from 'obsidian';
 import { VIEW_TYPE_MINDMAP } from './constants';
-import { addToggleMindmapMenuItem } from './integration/context-menu';
+import { addOutlineTransferMenuItems, addToggleMindmapMenuItem, isImportableOutlineFile } from './integration/context-menu';
+import { registerMindmapCommands } from './integration/commands';
 import { MindmapView } from './view/mindmap-view';
-import { openInternalLink } from './utils/outline';
+import type { SelectionSnapshot } from './view/view-state';
+import { openInternalLink } from './utils/vault-files';
 import { renderMindmapEomeEmbed } from './embeds/eome-embed';
+import { DEFAULT_SETTINGS, MindmapPluginSettings } from './storage/plugin-settings';
+import { MindmapSettingTab } from './ui/settings/mindmap-setting-tab';
+import type { HistoryState } from './history/command-history';
+import { fitHistoryState, pruneHistories } from './history/history-storage';
 
 export default class MindmapPlugin extends Plugin {
+  public settings: MindmapPluginSettings = { ...DEFAULT_SETTINGS };
+  /** Undo histories by file path, kept in plugin data next to the settings. */
+  private histories: Record<string, HistoryState> = {};
+  private requestSaveHistories = debounce(() => void this.savePluginData(), 2000, true);
   private suppressNextAutoOpen = new Set<string>();
   private autoOpenTimer: number | null = null;
   private autoOpenRunning = false;
   private autoOpenQueued = false;
 
   async onload() {
+    await this.loadSettings();
+    this.addSettingTab(new MindmapSettingTab(this.app, this));
+
     this.registerView(
       VIEW_TYPE_MINDMAP,  
       (leaf: WorkspaceLeaf) => new MindmapView(leaf, this)
     );
 
+    registerMindmapCommands(this);
+
     this.registerMarkdownCodeBlockProcessor('mindmap-eome', async (source, el, ctx) => {
       await renderMindmapEomeEmbed(this, source, el, ctx);
     });
@@ -34,6 +51,9 @@ export default class MindmapPlugin extends Plugin {
         (menu: Menu, abstractFile) => {
           if (abstractFile instanceof TFile && abstractFile.extension === 'md') {
             addToggleMindmapMenuItem(menu, this, abstractFile);
+            addOutlineTransferMenuItems(menu, this, abstractFile);
+          } else if (abstractFile instanceof TFile && isImportableOutlineFile(abstractFile)) {
+            addOutlineTransferMenuItems(menu, this, abstractFile);
           }
         }
       )
@@ -68,6 +88,23 @@ export default class MindmapPlugin extends Plugin {
       })
     );
 
+    this.registerEvent(
+      this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+        if (!this.histories[oldPath]) return;
+        this.histories[file.path] = this.histories[oldPath];
+        delete this.histories[oldPath];
+        this.requestSaveHistories();
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on('delete', (file: TAbstractFile) => {
+        if (!this.histories[file.path]) return;
+        delete this.histories[file.path];
+        this.requestSaveHistories();
+      })
+    );
+
     this.registerEvent(
       this.app.workspace.on('file-open', (file) => {
         if (file instanceof TFile) {
@@ -77,11 +114,59 @@ export default class MindmapPlugin extends Plugin {
     );
   }
 
+  async loadSettings(): Promise<void> {
+    const { histories, ...settings } = (await this.loadData()) ?? {};
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+    this.histories = this.settings.persistHistory && histories && typeof histories === 'object'
+      ? pruneHistories(histories)
+      : {};
+  }
+
+  private async savePluginData(): Promise<void> {
+    await this.saveData({ ...this.settings, histories: this.histories });
+  }
+
+  async saveSettings(): Promise<void> {
+    if (!this.settings.persistHistory) {
+      this.histories = {};
+    }
+    await this.savePluginData();
+
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_MINDMAP)) {
+      await (leaf.view as MindmapView).reloadFileSettings();
+    }
+  }
+
+  public getFileHistory(path: string): HistoryState | null {
+    return this.settings.persistHistory ? this.histories[path] ?? null : null;
+  }
+
+  /**
+   * Stores the history of a file for the next time it opens; an empty history removes the entry.
+   * Only the latest steps and the most recently used files are kept.
+   */
+  public saveFileHistory(path: string, state: HistoryState | null): void {
+    if (!this.settings.persistHistory) return;
+
+    const stored = state ? fitHistoryState(state) : null;
+    if (stored && stored.undoStack.length + stored.redoStack.length > 0) {
+      this.histories[path] = { ...stored, savedAt: Date.now() };
+      this.histories = pruneHistories(this.histories);
+    } else if (this.histories[path]) {
+      delete this.histories[path];
+    } else {
+      return;
+    }
+    this.requestSaveHistories();
+  }
+
   onunload() {
+    this.requestSaveHistories.run();
     // Do not detach leaves on unload; preserve user layout and leaf locations.
   }
 
-  public async openMindmapReplacingLeaf(file: TFile): Promise<void> {
+  /** Opens the file as a mindmap; `select` picks the node to select once it is drawn. */
+  public async openMindmapReplacingLeaf(file: TFile, select?: SelectionSnapshot): Promise<void> {
     const existingLeaf = this.app.workspace
       .getLeavesOfType(VIEW_TYPE_MINDMAP)
       .find((leaf) => {
@@ -89,6 +174,9 @@ export default class MindmapPlugin extends Plugin {
         return v.file?.path === file.path;
       });
     if (existingLeaf) {
+      if (select) {
+        await existingLeaf.setViewState({ type: VIEW_TYPE_MINDMAP, state: { file: file.path, select }, active: true });
+      }
       this.revealLeaf(existingLeaf);
       return;
     }
@@ -111,6 +199,7 @@ export default class MindmapPlugin extends Plugin {
       type: VIEW_TYPE_MINDMAP,
       state: {
         file: file.path,
+        select,
       },
       active: true,
     });
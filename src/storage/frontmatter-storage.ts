@@ -1,7 +1,15 @@
-import { App, TFile } from 'obsidian';
+import { App, TFile, stringifyYaml } from 'obsidian';
 import { NodeOptions } from '../ui/menus/node-options-menu';
 import { LayoutOptions } from '../domain/layout-options';
 import { GeneralSettings } from '../ui/menus/general-settings-menu';
+import { ParsedMindmapData, parseMindmapData, serializeMindmapData } from './mindmap-data-schema';
+
+const MINDMAP_KEY = 'excerpt-outline-mindmap';
+
+const LAYOUT_KEYS: (keyof ExcerptOutlineMindmapData)[] = [
+  'layoutType', 'rankDir', 'align', 'nodeSep', 'edgeSep', 'rankSep', 'marginx', 'marginy', 'acyclicer',
+  'ranker', 'spacingFactor', 'radialRingSep', 'balancedLevelSep', 'balancedNodeSep', 'indentSize', 'indentRowSep',
+];
 
 export interface ExcerptOutlineMindmapData {
   // General options
@@ -12,6 +20,7 @@ export interface ExcerptOutlineMindmapData {
   nodeWidth?: number;
   
   // Layout options
+  layoutType?: 'tree' | 'radial' | 'balanced' | 'indented';
   rankDir?: 'TB' | 'BT' | 'LR' | 'RL';
   align?: 'UL' | 'UR' | 'DL' | 'DR';
   nodeSep?: number;
@@ -23,6 +32,11 @@ export interface ExcerptOutlineMindmapData {
   ranker?: 'network-simplex' | 'tight-tree' | 'longest-path';
   spacingFactor?: number;
   zoomFactor?: number;
+  radialRingSep?: number;
+  balancedLevelSep?: number;
+  balancedNodeSep?: number;
+  indentSize?: number;
+  indentRowSep?: number;
 }
 
 export class FrontmatterStorage {
@@ -32,113 +46,61 @@ export class FrontmatterStorage {
     this.app = app;
   }
 
-  private encodeToString(data: ExcerptOutlineMindmapData): string {
-    const parts: string[] = [];
-
-    Object.entries(data).forEach(([key, value]) => {
-      if (value !== undefined) {
-        parts.push(`${key}:${value}`);
-      }
-    });
-
-    return parts.join(';');
-  }
-
-  private parseFromString(str: string): ExcerptOutlineMindmapData {
-    const result: Partial<ExcerptOutlineMindmapData> = {};
-    
-    if (!str || typeof str !== 'string') return result as ExcerptOutlineMindmapData;
-    const typedResult = result as Record<string, unknown>;
-    const parts = str.split(';');
-    parts.forEach(part => {
-      const [key, value] = part.split(':');
-      if (!key || value === undefined) return;
-
-      const trimmedKey = key.trim();
-      let trimmedValue = value.trim();
-      const normalizedKey = trimmedKey === 'acyciler' ? 'acyclicer' : trimmedKey;
-
-      if (
-        trimmedKey === 'nodeWidth' ||
-        trimmedKey === 'nodeSep' ||
-        trimmedKey === 'edgeSep' ||
-        trimmedKey === 'rankSep' ||
-        trimmedKey === 'marginx' ||
-        trimmedKey === 'marginy' ||
-        trimmedKey === 'spacingFactor' ||
-        trimmedKey === 'zoomFactor'
-      ) {
-        const numValue = parseFloat(trimmedValue);
-        if (!isNaN(numValue)) {
-          typedResult[trimmedKey] = numValue;
-        }
-      } else {
-        if (normalizedKey === 'align') {
-          if (trimmedValue === 'DL') trimmedValue = 'UL';
-          if (trimmedValue === 'DR') trimmedValue = 'UR';
-        }
-        if (trimmedValue === 'true' || trimmedValue === 'false') {
-          typedResult[normalizedKey] = trimmedValue === 'true';
-        } else {
-          typedResult[normalizedKey] = trimmedValue;
-        }
-      }
-    });
-
-    return result;
-  }
-
+  /**
+   * Writes `data` to the frontmatter. Entries this version could not read are kept as they were,
+   * unless `discardIgnored` says the caller is clearing them.
+   */
   private async saveMindmapData(
     file: TFile,
     data: ExcerptOutlineMindmapData,
-    preserveEmptyMarker: boolean = false
+    preserveEmptyMarker: boolean = false,
+    discardIgnored: (key: string) => boolean = () => false
   ): Promise<void> {
     const fileManager = this.app.fileManager as {
       processFrontMatter?: (file: TFile, processor: (frontmatter: Record<string, unknown>) => void) => Promise<void>;
     } | null;
 
-    const hasData = Object.values(data).some((value) => value !== undefined);
+    const current = this.readMindmapData(file);
+    if (current.readOnly) {
+      console.warn(`Mindmap settings in ${file.path} come from a newer plugin version and were not changed.`);
+      return;
+    }
+
+    const ignored: Record<string, unknown> = {};
+    Object.entries(current.ignored).forEach(([key, value]) => {
+      if (!discardIgnored(key)) ignored[key] = value;
+    });
+    const hasData = Object.values(data).some((value) => value !== undefined) || Object.keys(ignored).length > 0;
 
     try {
       if (fileManager?.processFrontMatter) {
         await fileManager.processFrontMatter(file, (frontmatter) => {
           if (hasData) {
-            frontmatter['excerpt-outline-mindmap'] = this.encodeToString(data);
+            frontmatter[MINDMAP_KEY] = serializeMindmapData(data, ignored);
           } else if (preserveEmptyMarker) {
-            frontmatter['excerpt-outline-mindmap'] = '';
+            frontmatter[MINDMAP_KEY] = '';
           } else {
-            delete frontmatter['excerpt-outline-mindmap'];
+            delete frontmatter[MINDMAP_KEY];
           }
         });
       } else {
         const contents = await this.app.vault.read(file);
         const fmMatch = contents.match(/^---\n([\s\S]*?)\n---\n?/);
+        const entry = hasData
+          ? stringifyYaml({ [MINDMAP_KEY]: serializeMindmapData(data, ignored) })
+          : preserveEmptyMarker ? `${MINDMAP_KEY}:\n` : '';
 
         if (fmMatch) {
-          let fmText = fmMatch[1];
-
-          if (hasData) {
-            if (/^excerpt-outline-mindmap:/m.test(fmText)) {
-              fmText = fmText.replace(/^excerpt-outline-mindmap:.*(?:\n|$)/m, `excerpt-outline-mindmap: ${this.encodeToString(data)}\n`);
-            } else {
-              fmText = `${fmText}\nexcerpt-outline-mindmap: ${this.encodeToString(data)}\n`;
-            }
-          } else if (preserveEmptyMarker) {
-            if (/^excerpt-outline-mindmap:/m.test(fmText)) {
-              fmText = fmText.replace(/^excerpt-outline-mindmap:.*(?:\n|$)/m, 'excerpt-outline-mindmap:\n');
-            } else {
-              fmText = `${fmText}\nexcerpt-outline-mindmap:\n`;
-            }
-          } else {
-            fmText = fmText.replace(/^excerpt-outline-mindmap:.*(?:\n|$)/m, '');
+          // Drop the key together with its indented YAML block before writing the new entry
+          let fmText = fmMatch[1].replace(/^excerpt-outline-mindmap:.*(?:\n[ \t]+.*)*(?:\n|$)/m, '');
+          if (entry) {
+            fmText = `${fmText.replace(/\n?$/, '\n')}${entry}`;
           }
 
-          const newContents = contents.replace(fmMatch[0], `---\n${fmText}---\n`);
+          const newContents = contents.replace(fmMatch[0], `---\n${fmText.replace(/\n?$/, '\n')}---\n`);
           await this.app.vault.modify(file, newContents);
-        } else if (hasData || preserveEmptyMarker) {
-          const value = hasData ? ` ${this.encodeToString(data)}` : '';
-          const fm = `---\nexcerpt-outline-mindmap:${value}\n---\n\n`;
-          await this.app.vault.modify(file, fm + contents);
+        } else if (entry) {
+          await this.app.vault.modify(file, `---\n${entry}---\n\n${contents}`);
         }
       }
     } catch (error) {
@@ -146,14 +108,14 @@ export class FrontmatterStorage {
     }
   }
 
-  async loadMindmapData(file: TFile): Promise<ExcerptOutlineMindmapData> {
-    const cache = this.app.metadataCache.getFileCache(file);
-    const frontmatter = cache?.frontmatter;
-
-    if (!frontmatter || !frontmatter['excerpt-outline-mindmap']) return {};
+  /** Reads and validates the file's settings; invalid fields are left out and listed in `errors`. */
+  readMindmapData(file: TFile): ParsedMindmapData {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    return parseMindmapData(frontmatter?.[MINDMAP_KEY]);
+  }
 
-    const mindmapDataString = frontmatter['excerpt-outline-mindmap'];
-    return this.parseFromString(String(mindmapDataString));
+  async loadMindmapData(file: TFile): Promise<ExcerptOutlineMindmapData> {
+    return this.readMindmapData(file).data;
   }
 
   async updateNodeOptions(file: TFile, nodeOptions: NodeOptions): Promise<void> {
@@ -176,24 +138,19 @@ export class FrontmatterStorage {
     await this.saveMindmapData(file, currentData as ExcerptOutlineMindmapData);
   }
 
-  async resetLayoutOptions(file: TFile): Promise<void> {
+  private hasMindmapMarker(file: TFile): boolean {
     const cache = this.app.metadataCache.getFileCache(file);
-    const hadMindmapMarker = !!cache?.frontmatter &&
-      Object.prototype.hasOwnProperty.call(cache.frontmatter, 'excerpt-outline-mindmap');
+    return !!cache?.frontmatter &&
+      Object.prototype.hasOwnProperty.call(cache.frontmatter, MINDMAP_KEY);
+  }
+
+  async resetLayoutOptions(file: TFile): Promise<void> {
+    const hadMindmapMarker = this.hasMindmapMarker(file);
     const currentData = await this.loadMindmapData(file);
+    LAYOUT_KEYS.forEach((key) => delete currentData[key]);
 
-    delete currentData.rankDir;
-    delete currentData.align;
-    delete currentData.nodeSep;
-    delete currentData.edgeSep;
-    delete currentData.rankSep;
-    delete currentData.marginx;
-    delete currentData.marginy;
-    delete currentData.acyclicer;
-    delete currentData.ranker;
-    delete currentData.spacingFactor;
-
-    await this.saveMindmapData(file, currentData, hadMindmapMarker);
+    const isLayoutKey = (key: string) => (LAYOUT_KEYS as string[]).includes(key);
+    await this.saveMindmapData(file, currentData, hadMindmapMarker, isLayoutKey);
   }
 
   async updateGeneralSettings(file: TFile, generalSettings: GeneralSettings): Promise<void> {
@@ -210,6 +167,11 @@ export class FrontmatterStorage {
     await this.saveMindmapData(file, currentData);
   }
 
+  /** Removes all per-file overrides, keeping the marker that opens the file as a mindmap. */
+  async clearMindmapData(file: TFile): Promise<void> {
+    await this.saveMindmapData(file, {}, this.hasMindmapMarker(file), () => true);
+  }
+
   async saveNodeWidth(file: TFile, nodeWidth: number): Promise<void> {
     const currentData = await this.loadMindmapData(file);
     currentData.nodeWidth = nodeWidth;
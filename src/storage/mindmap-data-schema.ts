@@ -0,0 +1,145 @@
+import type { ExcerptOutlineMindmapData } from './frontmatter-storage';
+
+export const MINDMAP_DATA_VERSION = 1;
+
+type FieldSpec =
+  | { type: 'number'; min: number }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] };
+
+const FIELDS: Record<keyof ExcerptOutlineMindmapData, FieldSpec> = {
+  keyboardNavigation: { type: 'enum', values: ['hierarchical', 'spatial'] },
+  showCheckboxesOnHover: { type: 'boolean' },
+  nodeWidth: { type: 'number', min: 1 },
+  layoutType: { type: 'enum', values: ['tree', 'radial', 'balanced', 'indented'] },
+  rankDir: { type: 'enum', values: ['TB', 'BT', 'LR', 'RL'] },
+  align: { type: 'enum', values: ['UL', 'UR', 'DL', 'DR'] },
+  nodeSep: { type: 'number', min: 0 },
+  edgeSep: { type: 'number', min: 0 },
+  rankSep: { type: 'number', min: 0 },
+  marginx: { type: 'number', min: 0 },
+  marginy: { type: 'number', min: 0 },
+  acyclicer: { type: 'enum', values: ['greedy'] },
+  ranker: { type: 'enum', values: ['network-simplex', 'tight-tree', 'longest-path'] },
+  spacingFactor: { type: 'number', min: 0.01 },
+  zoomFactor: { type: 'number', min: 0.01 },
+  radialRingSep: { type: 'number', min: 0 },
+  balancedLevelSep: { type: 'number', min: 0 },
+  balancedNodeSep: { type: 'number', min: 0 },
+  indentSize: { type: 'number', min: 0 },
+  indentRowSep: { type: 'number', min: 0 },
+};
+
+export interface ParsedMindmapData {
+  data: ExcerptOutlineMindmapData;
+  errors: string[];
+  /** Unknown keys and invalid values as they were written; saving keeps them unless they are replaced. */
+  ignored: Record<string, unknown>;
+  /** The file still uses the `key:value;key:value` string and is rewritten on the next save. */
+  legacy: boolean;
+  /** Written by a newer plugin version; must not be overwritten. */
+  readOnly: boolean;
+}
+
+function normalizeField(key: string, value: unknown): { value?: unknown; error?: string } {
+  const spec = FIELDS[key as keyof ExcerptOutlineMindmapData];
+  if (!spec) return { error: `unknown setting "${key}"` };
+  if (value === null || value === undefined || value === '') return {};
+
+  if (spec.type === 'number') {
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+    if (typeof num !== 'number' || !Number.isFinite(num)) return { error: `${key} must be a number` };
+    if (num < spec.min) return { error: `${key} must be at least ${spec.min}` };
+    return { value: num };
+  }
+
+  if (spec.type === 'boolean') {
+    if (value === 'true' || value === 'false') return { value: value === 'true' };
+    if (typeof value !== 'boolean') return { error: `${key} must be true or false` };
+    return { value };
+  }
+
+  if (typeof value !== 'string' || !spec.values.includes(value)) {
+    return { error: `${key} must be one of ${spec.values.join(', ')}` };
+  }
+  // Dagre treats DL/DR like UL/UR; older versions stored them
+  if (key === 'align' && (value === 'DL' || value === 'DR')) {
+    return { value: value === 'DL' ? 'UL' : 'UR' };
+  }
+  return { value };
+}
+
+function normalizeFields(
+  entries: [string, unknown][]
+): { data: ExcerptOutlineMindmapData; errors: string[]; ignored: Record<string, unknown> } {
+  const data: Record<string, unknown> = {};
+  const errors: string[] = [];
+  const ignored: Record<string, unknown> = {};
+
+  entries.forEach(([key, raw]) => {
+    const { value, error } = normalizeField(key, raw);
+    if (error) {
+      errors.push(error);
+      ignored[key] = raw;
+    } else if (value !== undefined) {
+      data[key] = value;
+    }
+  });
+
+  return { data: data as ExcerptOutlineMindmapData, errors, ignored };
+}
+
+function parseLegacyString(str: string): [string, unknown][] {
+  return str
+    .split(';')
+    .map((part) => part.split(':'))
+    .filter(([key, value]) => !!key?.trim() && value !== undefined)
+    .map(([key, value]): [string, unknown] => {
+      const trimmedKey = key.trim();
+      // Early versions wrote this key with a typo
+      return [trimmedKey === 'acyciler' ? 'acyclicer' : trimmedKey, value.trim()];
+    });
+}
+
+/** Reads the `excerpt-outline-mindmap` frontmatter value in any supported format. */
+export function parseMindmapData(raw: unknown): ParsedMindmapData {
+  if (raw === null || raw === undefined || raw === '') {
+    return { data: {}, errors: [], ignored: {}, legacy: false, readOnly: false };
+  }
+
+  if (typeof raw === 'string') {
+    return { ...normalizeFields(parseLegacyString(raw)), legacy: true, readOnly: false };
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { data: {}, errors: ['expected a YAML object'], ignored: {}, legacy: false, readOnly: false };
+  }
+
+  const { version, ...fields } = raw as Record<string, unknown>;
+  if (version !== undefined && (typeof version !== 'number' || version > MINDMAP_DATA_VERSION)) {
+    return {
+      data: {},
+      errors: [`version ${String(version)} is not supported by this plugin version; settings were ignored`],
+      ignored: {},
+      legacy: false,
+      readOnly: true,
+    };
+  }
+
+  return { ...normalizeFields(Object.entries(fields)), legacy: false, readOnly: false };
+}
+
+/** Writes the settings as a versioned YAML object, followed by the `ignored` entries that `data` does not replace. */
+export function serializeMindmapData(
+  data: ExcerptOutlineMindmapData,
+  ignored: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { version: MINDMAP_DATA_VERSION };
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== undefined) result[key] = value;
+  });
+  Object.entries(ignored).forEach(([key, value]) => {
+    if (!(key in result)) result[key] = value;
+  });
+  return result;
+}
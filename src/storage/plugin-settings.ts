@@ -0,0 +1,47 @@
+import { ExcerptOutlineMindmapData } from './frontmatter-storage';
+import { DEFAULT_HISTORY_DEPTH } from '../history/command-history';
+
+/** Vault-wide defaults; every field except the plugin-only ones can be overridden per file in frontmatter. */
+export interface MindmapPluginSettings extends ExcerptOutlineMindmapData {
+  /** Number of undo steps kept per open mindmap. */
+  historyDepth?: number;
+  /** Keep undo history in plugin data so it survives closing the mindmap. */
+  persistHistory?: boolean;
+}
+
+export const DEFAULT_SETTINGS: MindmapPluginSettings = {
+  keyboardNavigation: 'hierarchical',
+  showCheckboxesOnHover: false,
+  nodeWidth: 300,
+  layoutType: 'tree',
+  rankDir: 'TB',
+  align: undefined,
+  nodeSep: 50,
+  edgeSep: 10,
+  rankSep: 50,
+  marginx: 0,
+  marginy: 0,
+  acyclicer: undefined,
+  ranker: 'network-simplex',
+  spacingFactor: 1.0,
+  zoomFactor: undefined,
+  radialRingSep: 80,
+  balancedLevelSep: 80,
+  balancedNodeSep: 20,
+  indentSize: 40,
+  indentRowSep: 12,
+  historyDepth: DEFAULT_HISTORY_DEPTH,
+  persistHistory: true,
+};
+
+/** Layers file overrides over vault defaults, ignoring fields the file does not set. */
+export function resolveMindmapData(
+  settings: MindmapPluginSettings,
+  fileData: ExcerptOutlineMindmapData
+): ExcerptOutlineMindmapData {
+  const result: Record<string, unknown> = { ...settings };
+  Object.entries(fileData).forEach(([key, value]) => {
+    if (value !== undefined) result[key] = value;
+  });
+  return result as ExcerptOutlineMindmapData;
+}
@@ -9,6 +9,7 @@ type ClickHandlerElement = HTMLElement & {
 interface GeneralSettingsView {
   file?: TFile | null;
   frontmatterStorage?: FrontmatterStorage;
+  resetFileToVaultDefaults?: () => Promise<void>;
 }
 
 export interface GeneralSettings {
@@ -118,6 +119,16 @@ export class GeneralSettingsMenu {
           })
       );
 
+    if (this.view?.resetFileToVaultDefaults) {
+      const resetBtn = this.container.createEl('button', { text: 'Reset file to vault defaults' });
+      resetBtn.classList.add('fullwidth-button');
+      resetBtn.setAttribute('title', 'Remove all mindmap settings stored in this file and use the defaults from the plugin settings');
+      resetBtn.addEventListener('click', async () => {
+        await this.view?.resetFileToVaultDefaults?.();
+        this.close();
+      });
+    }
+
     const closeBtn = this.container.createEl('button', { text: 'Close' });
     closeBtn.classList.add('fullwidth-button');
     closeBtn.addEventListener('click', () => this.close());
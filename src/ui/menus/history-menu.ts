@@ -0,0 +1,60 @@
+import { moment } from 'obsidian';
+import type { MindmapView } from '../../view/mindmap-view';
+import { describeCommand, HistoryEntry } from '../../history/command-history';
+import { capitalize, PopoverMenu } from './popover-menu';
+
+function formatTime(timestamp: number): string {
+  const time = moment(timestamp);
+  return time.isSame(moment(), 'day') ? time.format('HH:mm:ss') : time.format('MMM D, HH:mm');
+}
+
+export class HistoryMenu extends PopoverMenu {
+  private view: MindmapView;
+
+  constructor(anchorEl: HTMLElement, view: MindmapView) {
+    super('history-menu', 360, 'left');
+    this.view = view;
+    this.open(anchorEl);
+  }
+
+  protected buildMenuContent(container: HTMLElement): void {
+    container.empty();
+    container.createEl('h3', { text: 'History' });
+
+    const { undoStack, redoStack } = this.view.commandHistory.getHistoryState();
+    const entries: HistoryEntry[] = [...undoStack, ...redoStack];
+    const currentIndex = this.view.commandHistory.getCurrentIndex();
+
+    if (entries.length === 0) {
+      container.createDiv({ cls: 'history-menu-empty', text: 'No changes yet.' });
+    } else {
+      const list = container.createDiv({ cls: 'history-menu-list' });
+      this.addItem(list, -1, 'Start of history', null, currentIndex);
+      entries.forEach((entry, index) => {
+        this.addItem(list, index, capitalize(describeCommand(entry)), entry.timestamp, currentIndex);
+      });
+    }
+
+    const closeButton = container.createEl('button', { text: 'Close' });
+    closeButton.classList.add('fullwidth-button');
+    closeButton.addEventListener('click', () => this.close());
+  }
+
+  private addItem(list: HTMLElement, index: number, label: string, timestamp: number | null, currentIndex: number): void {
+    const item = list.createEl('button', { cls: 'history-menu-item' });
+    item.classList.toggle('is-current', index === currentIndex);
+    // Steps after the current one can be redone
+    item.classList.toggle('is-future', index > currentIndex);
+
+    item.createSpan({ cls: 'history-menu-label', text: label });
+    if (timestamp !== null) {
+      item.createSpan({ cls: 'history-menu-time', text: formatTime(timestamp) });
+    }
+
+    item.addEventListener('click', async () => {
+      if (index === currentIndex) return;
+      await this.view.goToHistoryStep(index);
+      this.buildMenuContent(this.menu);
+    });
+  }
+}
@@ -1,5 +1,5 @@
 import type { MindmapView } from '../../view/mindmap-view';
-import type { LayoutOptions } from '../../domain/layout-options';
+import type { LayoutOptions, LayoutType } from '../../domain/layout-options';
 import { applyMobileMenuPosition } from './menu-positioning';
 
 export class LayoutOptionsMenu {
@@ -65,6 +65,88 @@ export class LayoutOptionsMenu {
 
     const opts = this.view.layoutOptions;
 
+    this.addDropdownSetting(
+      container,
+      'Layout',
+      'How nodes are arranged around the root',
+      {
+        tree: 'Tree',
+        radial: 'Radial',
+        balanced: 'Balanced left/right',
+        indented: 'Indented (org chart)',
+      },
+      opts.layoutType,
+      async (value) => {
+        opts.layoutType = value as LayoutType;
+        this.buildLayoutParameters(parametersEl);
+        // A different layout usually moves the map away from the current viewport
+        this.view.firstFitDone = false;
+        await this.view.updateLayoutOptions({ layoutType: opts.layoutType });
+      }
+    );
+
+    // Only the parameters of the selected layout are shown
+    const parametersEl = container.createDiv({ cls: 'layout-options-parameters' });
+    this.buildLayoutParameters(parametersEl);
+
+    const resetBtn = container.createEl('button', { text: 'Reset layout options' });
+    resetBtn.addClass('fullwidth-button', 'layout-reset-button');
+    resetBtn.addEventListener('click', async () => {
+      await this.view.resetLayoutOptions();
+      this.close();
+    });
+
+    const closeBtn = container.createEl('button', { text: 'Close' });
+    closeBtn.addClass('fullwidth-button');
+    closeBtn.addEventListener('click', () => this.close());
+  }
+
+  private buildLayoutParameters(container: HTMLElement): void {
+    container.empty();
+    const opts = this.view.layoutOptions;
+
+    if (opts.layoutType === 'radial') {
+      this.addSliderSetting(container, 'Ring Separation', 'Pixels between the rings of each level', 0, 300, 10, () => opts.radialRingSep, async (v) => {
+        opts.radialRingSep = v;
+        this.view.relayout();
+        await this.saveToFrontmatter({ radialRingSep: v });
+      });
+    } else if (opts.layoutType === 'balanced') {
+      this.addSliderSetting(container, 'Level Separation', 'Pixels between a node and its children', 0, 300, 10, () => opts.balancedLevelSep, async (v) => {
+        opts.balancedLevelSep = v;
+        this.view.relayout();
+        await this.saveToFrontmatter({ balancedLevelSep: v });
+      });
+      this.addSliderSetting(container, 'Node Separation', 'Pixels between siblings vertically', 0, 200, 5, () => opts.balancedNodeSep, async (v) => {
+        opts.balancedNodeSep = v;
+        this.view.relayout();
+        await this.saveToFrontmatter({ balancedNodeSep: v });
+      });
+    } else if (opts.layoutType === 'indented') {
+      this.addSliderSetting(container, 'Indent', 'Pixels each level is indented', 0, 200, 5, () => opts.indentSize, async (v) => {
+        opts.indentSize = v;
+        this.view.relayout();
+        await this.saveToFrontmatter({ indentSize: v });
+      });
+      this.addSliderSetting(container, 'Row Separation', 'Pixels between rows', 0, 100, 2, () => opts.indentRowSep, async (v) => {
+        opts.indentRowSep = v;
+        this.view.relayout();
+        await this.saveToFrontmatter({ indentRowSep: v });
+      });
+    } else {
+      this.buildTreeParameters(container);
+    }
+
+    this.addSliderSetting(container, 'Spacing Factor', 'Overall spacing multiplier', 0.5, 3.0, 0.1, () => opts.spacingFactor, async (v) => { 
+      opts.spacingFactor = v; 
+      this.view.relayout(); 
+      await this.saveToFrontmatter({ spacingFactor: v }); 
+    });
+  }
+
+  private buildTreeParameters(container: HTMLElement): void {
+    const opts = this.view.layoutOptions;
+
     // Rank Direction
     this.addDropdownSetting(
       container,
@@ -135,22 +217,6 @@ export class LayoutOptionsMenu {
       this.view.relayout(); 
       await this.saveToFrontmatter({ rankSep: v }); 
     });
-    this.addSliderSetting(container, 'Spacing Factor', 'Overall spacing multiplier', 0.5, 3.0, 0.1, () => opts.spacingFactor, async (v) => { 
-      opts.spacingFactor = v; 
-      this.view.relayout(); 
-      await this.saveToFrontmatter({ spacingFactor: v }); 
-    });
-
-    const resetBtn = container.createEl('button', { text: 'Reset layout options' });
-    resetBtn.addClass('fullwidth-button', 'layout-reset-button');
-    resetBtn.addEventListener('click', async () => {
-      await this.view.resetLayoutOptions();
-      this.close();
-    });
-
-    const closeBtn = container.createEl('button', { text: 'Close' });
-    closeBtn.addClass('fullwidth-button');
-    closeBtn.addEventListener('click', () => this.close());
   }
 
   private addDropdownSetting(
@@ -0,0 +1,120 @@
+import { setIcon } from 'obsidian';
+import type { MindmapView } from '../../view/mindmap-view';
+import { OutlineNode } from '../../utils/outline';
+import { getNodeColorValue, getNodeStyle, NODE_COLORS, NodeStyle } from '../../domain/node-style';
+import { capitalize, PopoverMenu } from './popover-menu';
+
+const PRESET_ICONS = ['⭐', '💡', '❓', '❗', '✅', '⚠️', '📌', '🔥'];
+
+const BORDER_OPTIONS: Array<{ label: string; value: NodeStyle['border'] }> = [
+  { label: 'Solid', value: undefined },
+  { label: 'Dashed', value: 'dashed' },
+  { label: 'Dotted', value: 'dotted' },
+  { label: 'None', value: 'none' },
+];
+
+/** Picks color, border, icon and bold frame for the nodes on the given lines. */
+export class NodeStyleMenu extends PopoverMenu {
+  private view: MindmapView;
+  private nodeLines: number[];
+
+  constructor(anchorEl: HTMLElement, view: MindmapView, nodeLines: number[]) {
+    super('node-style-menu', 280, 'right');
+    this.view = view;
+    this.nodeLines = nodeLines;
+    this.open(anchorEl);
+  }
+
+  private getNodes(): OutlineNode[] {
+    return this.nodeLines
+      .map((line) => this.view.getNodeByLine(line))
+      .filter((node): node is OutlineNode => node !== null);
+  }
+
+  protected buildMenuContent(container: HTMLElement): void {
+    container.empty();
+    const nodes = this.getNodes();
+    container.createEl('h3', { text: nodes.length > 1 ? `Style ${nodes.length} nodes` : 'Node style' });
+
+    // The first node's style is shown as the current one
+    const current = nodes.length > 0 ? getNodeStyle(nodes[0].markers) : {};
+
+    const colors = this.addSection(container, 'Color');
+    this.addOption(colors, 'None', current.color === undefined, { color: undefined }, (button) => {
+      button.addClass('node-style-swatch');
+      setIcon(button, 'ban');
+    });
+    NODE_COLORS.forEach((color) => {
+      this.addOption(colors, capitalize(color), current.color === color, { color }, (button) => {
+        button.addClass('node-style-swatch', 'has-color');
+        button.style.setProperty('--node-style-swatch', getNodeColorValue(color));
+      });
+    });
+
+    const borders = this.addSection(container, 'Border');
+    BORDER_OPTIONS.forEach(({ label, value }) => {
+      this.addOption(borders, label, current.border === value, { border: value }, (button) => button.setText(label));
+    });
+    this.addOption(borders, 'Bold frame', current.frame === true, { frame: !current.frame }, (button) => {
+      button.setText('Bold frame');
+    });
+
+    const icons = this.addSection(container, 'Icon');
+    this.addOption(icons, 'None', current.icon === undefined, { icon: undefined }, (button) => setIcon(button, 'ban'));
+    PRESET_ICONS.forEach((icon) => {
+      this.addOption(icons, icon, current.icon === icon, { icon }, (button) => button.setText(icon));
+    });
+
+    const iconInput = container.createEl('input', {
+      type: 'text',
+      cls: 'node-style-icon-input',
+      placeholder: 'Emoji or Lucide icon name',
+    });
+    if (current.icon && !PRESET_ICONS.includes(current.icon)) {
+      iconInput.value = current.icon;
+    }
+    iconInput.addEventListener('keydown', (event) => {
+      if (event.key !== 'Enter') return;
+      event.preventDefault();
+      void this.apply({ icon: iconInput.value.trim() || undefined });
+    });
+
+    const clearButton = container.createEl('button', { text: 'Clear style' });
+    clearButton.classList.add('fullwidth-button');
+    clearButton.addEventListener('click', () => {
+      void this.apply({ color: undefined, border: undefined, icon: undefined, frame: undefined });
+    });
+
+    const closeButton = container.createEl('button', { text: 'Close' });
+    closeButton.classList.add('fullwidth-button');
+    closeButton.addEventListener('click', () => this.close());
+  }
+
+  private addSection(container: HTMLElement, title: string): HTMLElement {
+    container.createDiv({ cls: 'node-style-menu-label', text: title });
+    return container.createDiv({ cls: 'node-style-menu-options' });
+  }
+
+  private addOption(
+    row: HTMLElement,
+    label: string,
+    active: boolean,
+    style: NodeStyle,
+    render: (button: HTMLButtonElement) => void
+  ): void {
+    const button = row.createEl('button', { cls: 'node-style-option' });
+    button.type = 'button';
+    button.setAttribute('aria-label', label);
+    button.classList.toggle('is-active', active);
+    render(button);
+    button.addEventListener('click', () => void this.apply(style));
+  }
+
+  private async apply(style: NodeStyle): Promise<void> {
+    const nodes = this.getNodes();
+    if (nodes.length === 0) return;
+
+    await this.view.executeSetNodesStyleCommand(nodes, style);
+    this.buildMenuContent(this.menu);
+  }
+}
@@ -0,0 +1,73 @@
+import { applyMobileMenuPosition } from './menu-positioning';
+
+export function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * A menu that floats beside its anchor and closes on an outside click or Escape.
+ * Subclasses fill it in `buildMenuContent` and call `open` once their own fields are set.
+ */
+export abstract class PopoverMenu {
+  protected menu: HTMLDivElement = document.createElement('div');
+  private removeDocumentListeners: () => void = () => {};
+
+  constructor(private className: string, private width: number, private side: 'left' | 'right') {}
+
+  protected abstract buildMenuContent(container: HTMLElement): void;
+
+  protected open(anchorEl: HTMLElement): void {
+    this.menu.className = this.className;
+
+    const rect = anchorEl.getBoundingClientRect();
+    const preferredLeft = this.side === 'left'
+      ? rect.left + window.scrollX - this.width - 12
+      : rect.right + window.scrollX + 12;
+    const left = Math.max(12, Math.min(preferredLeft, window.scrollX + window.innerWidth - this.width - 12));
+
+    this.menu.style.setProperty('--menu-left', `${left}px`);
+    this.menu.style.setProperty('--menu-top', `${rect.top + window.scrollY}px`);
+
+    this.buildMenuContent(this.menu);
+    applyMobileMenuPosition(this.menu, this.width);
+    document.body.appendChild(this.menu);
+    this.setupEventListeners();
+  }
+
+  private setupEventListeners(): void {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!this.menu.contains(event.target as Node)) {
+        this.close();
+      }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        this.close();
+      }
+    };
+
+    // Added on the next tick so the click that opened the menu does not close it
+    const timer = window.setTimeout(() => {
+      document.addEventListener('click', handleClickOutside);
+      document.addEventListener('keydown', handleKeyDown);
+    }, 10);
+
+    this.removeDocumentListeners = () => {
+      window.clearTimeout(timer);
+      document.removeEventListener('click', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }
+
+  public close(): void {
+    this.removeDocumentListeners();
+    if (this.menu.parentElement) {
+      this.menu.remove();
+    }
+  }
+
+  public isOpen(): boolean {
+    return this.menu.parentElement !== null;
+  }
+}
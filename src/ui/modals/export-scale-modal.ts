@@ -0,0 +1,43 @@
+import { App, Modal, Setting } from 'obsidian';
+
+const SCALES = [1, 2, 3, 4];
+
+export class ExportScaleModal extends Modal {
+  private scale = 2;
+  private onSubmit: (scale: number) => void;
+
+  constructor(app: App, onSubmit: (scale: number) => void) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.setTitle('Export mindmap as PNG');
+
+    new Setting(contentEl)
+      .setName('Scale')
+      .setDesc('Higher scales give sharper images for print and slides.')
+      .addDropdown((dropdown) => {
+        SCALES.forEach((scale) => dropdown.addOption(String(scale), `${scale}x`));
+        dropdown
+          .setValue(String(this.scale))
+          .onChange((value) => (this.scale = Number(value)));
+      });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText('Export')
+          .setCta()
+          .onClick(() => {
+            this.close();
+            this.onSubmit(this.scale);
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
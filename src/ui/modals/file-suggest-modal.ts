@@ -0,0 +1,25 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+export class FileSuggestModal extends FuzzySuggestModal<TFile> {
+  private files: TFile[];
+  private onChoose: (file: TFile) => void;
+
+  constructor(app: App, files: TFile[], placeholder: string, onChoose: (file: TFile) => void) {
+    super(app);
+    this.files = files;
+    this.onChoose = onChoose;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): TFile[] {
+    return this.files;
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
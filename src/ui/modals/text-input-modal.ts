@@ -0,0 +1,38 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export class TextInputModal extends Modal {
+  result: string | null = null;
+  private initialValue: string;
+  private onSubmit: (value: string) => void;
+
+  constructor(app: App, initialValue: string, onSubmit: (value: string) => void) {
+    super(app);
+    this.initialValue = initialValue;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h2', { text: 'Neuen Text eingeben' });
+
+    new Setting(contentEl)
+      .setName('Text')
+      .addText((text) =>
+        text
+          .setValue(this.initialValue)
+          .onChange((value) => (this.result = value))
+      );
+
+    contentEl.createEl('br');
+
+    const buttonEl = contentEl.createEl('button', { text: 'Speichern' });
+    buttonEl.addEventListener('click', () => {
+      this.close();
+      this.onSubmit(this.result ?? this.initialValue);
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,207 @@
+import { App, PluginSettingTab, Setting } from 'obsidian';
+import MindmapPlugin from '../../main';
+import { DEFAULT_SETTINGS, MindmapPluginSettings } from '../../storage/plugin-settings';
+
+export class MindmapSettingTab extends PluginSettingTab {
+  private plugin: MindmapPlugin;
+
+  constructor(app: App, plugin: MindmapPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    const settings = this.plugin.settings;
+    containerEl.empty();
+
+    containerEl.createEl('p', {
+      text: 'Defaults for every mindmap in this vault. Changes made through the toolbar menus are stored in the file and override these values. Use "Reset file to vault defaults" in the general settings menu to remove them.',
+      cls: 'setting-item-description',
+    });
+
+    new Setting(containerEl).setName('General').setHeading();
+
+    new Setting(containerEl)
+      .setName('Keyboard navigation')
+      .setDesc('Choose how arrow keys move the selection.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ hierarchical: 'Hierarchical (Tree)', spatial: 'Spatial (Visual)' })
+          .setValue(settings.keyboardNavigation ?? 'hierarchical')
+          .onChange(async (value) => {
+            await this.update({ keyboardNavigation: value as 'hierarchical' | 'spatial' });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Show checkbox toggle on non-checkbox nodes')
+      .setDesc('Display a checkbox icon when hovering over nodes that are not already task list items.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(settings.showCheckboxesOnHover ?? false)
+          .onChange(async (value) => {
+            await this.update({ showCheckboxesOnHover: value });
+          })
+      );
+
+    new Setting(containerEl).setName('Nodes').setHeading();
+
+    this.addSlider('Node width', 'Width of nodes in pixels', 100, 600, 10, 'nodeWidth');
+
+    new Setting(containerEl).setName('Layout').setHeading();
+
+    new Setting(containerEl)
+      .setName('Layout')
+      .setDesc('How nodes are arranged around the root. The rank settings below apply to the tree layout.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            tree: 'Tree',
+            radial: 'Radial',
+            balanced: 'Balanced left/right',
+            indented: 'Indented (org chart)',
+          })
+          .setValue(settings.layoutType ?? 'tree')
+          .onChange(async (value) => {
+            await this.update({ layoutType: value as MindmapPluginSettings['layoutType'] });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Rank direction')
+      .setDesc('Direction for rank nodes')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            TB: 'TB (Top → Bottom)',
+            BT: 'BT (Bottom → Top)',
+            LR: 'LR (Left → Right)',
+            RL: 'RL (Right → Left)',
+          })
+          .setValue(settings.rankDir ?? 'TB')
+          .onChange(async (value) => {
+            await this.update({ rankDir: value as MindmapPluginSettings['rankDir'] });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Alignment')
+      .setDesc('Bias node alignment within each rank')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ none: 'none', UL: 'Left', UR: 'Right' })
+          .setValue(settings.align ?? 'none')
+          .onChange(async (value) => {
+            await this.update({ align: value === 'none' ? undefined : (value as 'UL' | 'UR') });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Ranker')
+      .setDesc('Algorithm for assigning ranks')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            'network-simplex': 'network-simplex',
+            'tight-tree': 'tight-tree',
+            'longest-path': 'longest-path',
+          })
+          .setValue(settings.ranker ?? 'network-simplex')
+          .onChange(async (value) => {
+            await this.update({ ranker: value as MindmapPluginSettings['ranker'] });
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Acyclicer')
+      .setDesc('How dagre breaks cycles before ranking')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ none: 'none', greedy: 'greedy' })
+          .setValue(settings.acyclicer ?? 'none')
+          .onChange(async (value) => {
+            await this.update({ acyclicer: value === 'greedy' ? 'greedy' : undefined });
+          })
+      );
+
+    this.addSlider('Node separation', 'Pixels between adjacent nodes horizontally', 0, 300, 10, 'nodeSep');
+    this.addSlider('Rank separation', 'Pixels between ranks vertically', 0, 300, 10, 'rankSep');
+    this.addSlider('Edge separation', 'Pixels between adjacent edges', 0, 100, 5, 'edgeSep');
+    this.addSlider('Horizontal margin', 'Margin around the graph in pixels', 0, 200, 10, 'marginx');
+    this.addSlider('Vertical margin', 'Margin around the graph in pixels', 0, 200, 10, 'marginy');
+    this.addSlider('Spacing factor', 'Overall spacing multiplier', 0.5, 3.0, 0.1, 'spacingFactor');
+    this.addSlider('Radial ring separation', 'Pixels between the rings of the radial layout', 0, 300, 10, 'radialRingSep');
+    this.addSlider('Balanced level separation', 'Pixels between a node and its children in the balanced layout', 0, 300, 10, 'balancedLevelSep');
+    this.addSlider('Balanced node separation', 'Pixels between siblings in the balanced layout', 0, 200, 5, 'balancedNodeSep');
+    this.addSlider('Indent', 'Pixels each level is indented in the indented layout', 0, 200, 5, 'indentSize');
+    this.addSlider('Indented row separation', 'Pixels between rows in the indented layout', 0, 100, 2, 'indentRowSep');
+
+    new Setting(containerEl)
+      .setName('Zoom')
+      .setDesc('Initial zoom factor, for example 1 or 0.75. Leave empty to fit the map to the view.')
+      .addText((text) =>
+        text
+          .setPlaceholder('Fit to view')
+          .setValue(settings.zoomFactor === undefined ? '' : String(settings.zoomFactor))
+          .onChange(async (value) => {
+            const zoomFactor = parseFloat(value);
+            await this.update({ zoomFactor: Number.isFinite(zoomFactor) && zoomFactor > 0 ? zoomFactor : undefined });
+          })
+      );
+
+    new Setting(containerEl).setName('History').setHeading();
+
+    this.addSlider('Undo steps', 'How many steps undo can go back in each mindmap', 10, 500, 10, 'historyDepth');
+
+    new Setting(containerEl)
+      .setName('Keep undo history')
+      .setDesc('Remember undo history when a mindmap is closed or Obsidian restarts')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(settings.persistHistory ?? true)
+          .onChange(async (value) => {
+            await this.update({ persistHistory: value });
+          })
+      );
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button
+          .setButtonText('Restore plugin defaults')
+          .onClick(async () => {
+            this.plugin.settings = { ...DEFAULT_SETTINGS };
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+  }
+
+  private addSlider(
+    name: string,
+    desc: string,
+    min: number,
+    max: number,
+    step: number,
+    key: 'nodeWidth' | 'nodeSep' | 'rankSep' | 'edgeSep' | 'marginx' | 'marginy' | 'spacingFactor' |
+      'radialRingSep' | 'balancedLevelSep' | 'balancedNodeSep' | 'indentSize' | 'indentRowSep' | 'historyDepth'
+  ): void {
+    new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addSlider((slider) =>
+        slider
+          .setLimits(min, max, step)
+          .setValue(this.plugin.settings[key] ?? DEFAULT_SETTINGS[key]!)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            await this.update({ [key]: value });
+          })
+      );
+  }
+
+  private async update(changes: Partial<MindmapPluginSettings>): Promise<void> {
+    this.plugin.settings = { ...this.plugin.settings, ...changes };
+    await this.plugin.saveSettings();
+  }
+}
@@ -0,0 +1,54 @@
+// src/ui/toolbar/focus-breadcrumbs.ts
+
+import { setIcon } from 'obsidian';
+import type { MindmapView } from '../../view/mindmap-view';
+import { OutlineNode } from '../../utils/outline';
+
+const MAX_LABEL_LENGTH = 40;
+
+function getLabel(node: OutlineNode): string {
+  const text = node.text.trim() || 'Untitled node';
+  return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+}
+
+export class FocusBreadcrumbs {
+  private container: HTMLDivElement;
+  private view: MindmapView;
+
+  constructor(view: MindmapView) {
+    this.view = view;
+    this.container = this.view.wrapper.createDiv({ cls: 'mindmap-focus-breadcrumbs' });
+    this.container.hide();
+  }
+
+  /** Shows the path from the outline root to the focused node, or hides the bar without focus. */
+  public update(): void {
+    this.container.empty();
+
+    const path = this.view.getFocusPath();
+    if (path.length === 0) {
+      this.container.hide();
+      return;
+    }
+    this.container.show();
+
+    const exitBtn = this.container.createEl('button', { cls: 'clickable-icon mindmap-focus-exit' });
+    setIcon(exitBtn, 'home');
+    exitBtn.setAttribute('aria-label', 'Show whole map');
+    exitBtn.onclick = () => void this.view.clearFocus();
+
+    path.forEach((node, index) => {
+      this.container.createSpan({ cls: 'mindmap-focus-separator', text: '›' });
+
+      const isCurrent = index === path.length - 1;
+      const crumb = this.container.createEl('button', {
+        cls: isCurrent ? 'mindmap-focus-crumb is-current' : 'mindmap-focus-crumb',
+        text: getLabel(node),
+      });
+      crumb.setAttribute('aria-label', node.text);
+      if (!isCurrent) {
+        crumb.onclick = () => void this.view.focusNode(node);
+      }
+    });
+  }
+}
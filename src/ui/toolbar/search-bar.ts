@@ -0,0 +1,94 @@
+// src/ui/toolbar/search-bar.ts
+
+import { debounce, setIcon } from 'obsidian';
+import type { MindmapView } from '../../view/mindmap-view';
+
+export class MindmapSearchBar {
+  private container: HTMLDivElement;
+  private input: HTMLInputElement;
+  private countEl: HTMLSpanElement;
+  private filterBtn: HTMLButtonElement;
+  private view: MindmapView;
+
+  private applyQuery = debounce(() => void this.view.setSearchQuery(this.input.value), 150, true);
+
+  constructor(view: MindmapView) {
+    this.view = view;
+    this.container = this.view.wrapper.createDiv({ cls: 'mindmap-search-bar' });
+    this.container.hide();
+
+    this.input = this.container.createEl('input', {
+      type: 'search',
+      placeholder: 'Search nodes: text, /regex/, #tag, is:checked',
+    });
+    this.input.addEventListener('input', () => this.applyQuery());
+    this.input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.applyQuery.run();
+        // Selecting a node focuses the map; keep typing in the field
+        void this.view.stepSearchMatch(event.shiftKey ? -1 : 1).then(() => this.input.focus());
+      } else if (event.key === 'Escape') {
+        event.preventDefault();
+        void this.view.closeSearch();
+      }
+    });
+
+    this.countEl = this.container.createSpan({ cls: 'mindmap-search-count' });
+
+    const prevBtn = this.createButton('chevron-up', 'Previous match (Shift+Enter)');
+    prevBtn.onclick = () => void this.view.stepSearchMatch(-1);
+
+    const nextBtn = this.createButton('chevron-down', 'Next match (Enter)');
+    nextBtn.onclick = () => void this.view.stepSearchMatch(1);
+
+    this.filterBtn = this.createButton('filter', 'Hide non-matching nodes');
+    this.filterBtn.onclick = () => {
+      const hide = !this.view.searchHidesNonMatching;
+      this.filterBtn.classList.toggle('is-active', hide);
+      void this.view.setSearchHidesNonMatching(hide);
+    };
+
+    const closeBtn = this.createButton('x', 'Close search (Escape)');
+    closeBtn.onclick = () => void this.view.closeSearch();
+  }
+
+  private createButton(icon: string, label: string): HTMLButtonElement {
+    const button = this.container.createEl('button', { cls: 'clickable-icon' });
+    setIcon(button, icon);
+    button.setAttribute('aria-label', label);
+    return button;
+  }
+
+  public isOpen(): boolean {
+    return this.container.isShown();
+  }
+
+  public open(): void {
+    this.container.show();
+    this.filterBtn.classList.toggle('is-active', this.view.searchHidesNonMatching);
+    this.input.focus();
+    this.input.select();
+  }
+
+  public close(): void {
+    this.applyQuery.cancel();
+    this.input.value = '';
+    this.countEl.setText('');
+    this.container.hide();
+  }
+
+  /** `current` is 1-based and 0 while no match is selected. */
+  public setResult(current: number, total: number, error?: string): void {
+    this.container.classList.toggle('has-error', !!error);
+    this.container.classList.toggle('has-no-match', !error && total === 0 && this.input.value.trim() !== '');
+
+    if (error) {
+      this.countEl.setText(error);
+    } else if (this.input.value.trim() === '') {
+      this.countEl.setText('');
+    } else {
+      this.countEl.setText(total === 0 ? 'No matches' : `${current > 0 ? current : '–'} / ${total}`);
+    }
+  }
+}
@@ -1,11 +1,12 @@
 // src/ui/toolbar/vertical-toolbar.ts
 
-import { setIcon } from 'obsidian';
+import { Menu, setIcon } from 'obsidian';
 import type { MindmapView } from '../../view/mindmap-view';
 import { LayoutOptionsMenu } from '../menus/layout-options-menu';
 import { NodeOptionsMenu, NodeOptions } from '../menus/node-options-menu';
 import { GeneralSettingsMenu } from '../menus/general-settings-menu';
 import { ZoomOptionsMenu } from '../menus/zoom-options-menu';
+import { HistoryMenu } from '../menus/history-menu';
 
 export class VerticalToolbar {
   private container: HTMLDivElement;
@@ -15,6 +16,7 @@ export class VerticalToolbar {
   private currentLayoutMenu: LayoutOptionsMenu | null = null;
   private currentGeneralMenu: GeneralSettingsMenu | null = null;
   private currentZoomMenu: ZoomOptionsMenu | null = null;
+  private currentHistoryMenu: HistoryMenu | null = null;
   private zoomIndicator?: HTMLButtonElement;
   private showControls = false;
 
@@ -24,6 +26,7 @@ export class VerticalToolbar {
 
   constructor(view: MindmapView) {
     this.view = view;
+    this.nodeOptions = view.getNodeOptions();
     this.container = this.view.wrapper.createDiv({ cls: 'vertical-toolbar' });
     this.container.addClass('buttons-group');
     const toggleGroup = this.container.createDiv({ cls: 'buttons-group controls-toggle' });
@@ -64,6 +67,15 @@ export class VerticalToolbar {
       this.view.executeRedo();
     };
 
+    // History Button
+    const historyBtn = this.buttonsGroup.createEl('button');
+    historyBtn.addClass('clickable-icon');
+    setIcon(historyBtn, 'history');
+    historyBtn.setAttribute('aria-label', 'History');
+    historyBtn.onclick = () => {
+      this.openHistory(historyBtn);
+    };
+
     // Store references for updating button states
     this.undoButton = undoBtn;
     this.redoButton = redoBtn;
@@ -77,6 +89,24 @@ export class VerticalToolbar {
       this.view.fitToView();
     };
 
+    // Fold Button
+    const foldBtn = this.buttonsGroup.createEl('button');
+    foldBtn.addClass('clickable-icon');
+    setIcon(foldBtn, 'list-collapse');
+    foldBtn.setAttribute('aria-label', 'Collapse to level');
+    foldBtn.onclick = () => {
+      this.openFoldMenu(foldBtn);
+    };
+
+    // Export Button
+    const exportBtn = this.buttonsGroup.createEl('button');
+    exportBtn.addClass('clickable-icon');
+    setIcon(exportBtn, 'image-down');
+    exportBtn.setAttribute('aria-label', 'Export image');
+    exportBtn.onclick = () => {
+      this.openExportMenu(exportBtn);
+    };
+
     this.zoomIndicator = this.buttonsGroup.createEl('button', { cls: 'mindmap-zoom-indicator' });
     this.zoomIndicator.setAttribute('type', 'button');
     this.zoomIndicator.addEventListener('click', () => this.openZoomOptions(this.zoomIndicator!));
@@ -113,6 +143,80 @@ export class VerticalToolbar {
     };
   }
 
+  private openFoldMenu(buttonEl: HTMLElement) {
+    this.closeMenus();
+
+    const menu = new Menu();
+    menu.addItem((item) => {
+      item
+        .setTitle('Expand all')
+        .setIcon('list-tree')
+        .onClick(() => void this.view.collapseToLevel(0));
+    });
+    menu.addSeparator();
+    [1, 2, 3, 4, 5].forEach((level) => {
+      menu.addItem((item) => {
+        item
+          .setTitle(`Collapse to level ${level}`)
+          .onClick(() => void this.view.collapseToLevel(level));
+      });
+    });
+
+    const rect = buttonEl.getBoundingClientRect();
+    menu.showAtPosition({ x: rect.left, y: rect.bottom });
+  }
+
+  private openExportMenu(buttonEl: HTMLElement) {
+    this.closeMenus();
+
+    const menu = new Menu();
+    menu.addItem((item) => {
+      item
+        .setTitle('Export as SVG')
+        .setIcon('file-code')
+        .onClick(() => void this.view.exportAsSvg());
+    });
+    menu.addItem((item) => {
+      item
+        .setTitle('Export as PNG…')
+        .setIcon('image')
+        .onClick(() => this.view.openPngExport());
+    });
+    menu.addItem((item) => {
+      item
+        .setTitle('Export as canvas')
+        .setIcon('layout-dashboard')
+        .onClick(() => void this.view.exportAsCanvas());
+    });
+    menu.addSeparator();
+    menu.addItem((item) => {
+      item
+        .setTitle('Copy as Mermaid mindmap')
+        .setIcon('network')
+        .onClick(() => void this.view.copyNodesAs('mermaid', []));
+    });
+    menu.addItem((item) => {
+      item
+        .setTitle('Copy as Markmap')
+        .setIcon('list-tree')
+        .onClick(() => void this.view.copyNodesAs('markmap', []));
+    });
+
+    const rect = buttonEl.getBoundingClientRect();
+    menu.showAtPosition({ x: rect.left, y: rect.bottom });
+  }
+
+  private openHistory(buttonEl: HTMLElement) {
+    if (this.currentHistoryMenu?.isOpen()) {
+      this.currentHistoryMenu.close();
+      this.currentHistoryMenu = null;
+      return;
+    }
+
+    this.closeMenus();
+    this.currentHistoryMenu = new HistoryMenu(buttonEl, this.view);
+  }
+
   private openGeneralSettings(buttonEl: HTMLElement) {
     this.closeZoomOptions();
 
@@ -215,6 +319,10 @@ export class VerticalToolbar {
       this.currentGeneralMenu.close();
       this.currentGeneralMenu = null;
     }
+    if (this.currentHistoryMenu) {
+      this.currentHistoryMenu.close();
+      this.currentHistoryMenu = null;
+    }
     this.closeZoomOptions();
   }
 
@@ -233,12 +341,14 @@ export class VerticalToolbar {
       const canUndo = this.view.commandHistory.canUndo();
       (this.undoButton as HTMLButtonElement).disabled = !canUndo;
       this.undoButton.classList.toggle('disabled', !canUndo);
+      this.undoButton.setAttribute('aria-label', this.view.commandHistory.getUndoDescription() ?? 'Undo');
     }
     
     if (this.redoButton) {
       const canRedo = this.view.commandHistory.canRedo();
       (this.redoButton as HTMLButtonElement).disabled = !canRedo;
       this.redoButton.classList.toggle('disabled', !canRedo);
+      this.redoButton.setAttribute('aria-label', this.view.commandHistory.getRedoDescription() ?? 'Redo');
     }
   }
 
@@ -1,5 +1,4 @@
-import { Modal, App, Setting } from 'obsidian';
-import { TFile } from 'obsidian';
+import { NodeMarkers, parseNodeMarkers, isCollapsed } from '../domain/node-markers';
 
 export type CheckboxState = 'checked' | 'unchecked' | 'none';
 
@@ -8,10 +7,16 @@ export interface OutlineNode {
   indent: string;
   marker: string;
   line: number;
+  /** Last line of the node's own continuation paragraphs; equals `line` without a body. */
+  bodyEndLine: number;
   endLine: number;
   children: OutlineNode[];
   checkbox: CheckboxState;
+  markers: NodeMarkers;
+  /** Continuation lines of the list item, without their indentation. */
+  body: string;
   scaleFactor?: number;
+  id?: string;
 }
 
 export function parseCheckboxState(text: string): { checkbox: CheckboxState; text: string } {
@@ -26,16 +31,77 @@ export function parseCheckboxState(text: string): { checkbox: CheckboxState; tex
   };
 }
 
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+\.)(?:\s+(.*))?$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+function indentColumns(value: string): number {
+  return value.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Returns the last line of the continuation paragraphs that follow the list item at `start`.
+ * Continuation lines are indented deeper than the item and are not list items themselves,
+ * unless they sit inside a fenced code block. Trailing blank lines are not part of the body.
+ */
+export function findBodyEnd(lines: string[], start: number, indent: string): number {
+  const itemColumns = indentColumns(indent);
+  let bodyEnd = start;
+  let fence: string | null = null;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === '') continue;
+
+    const lineIndent = line.match(/^(\s*)/)?.[1] ?? '';
+    if (indentColumns(lineIndent) <= itemColumns) break;
+    if (!fence && LIST_ITEM_PATTERN.test(line)) break;
+
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1] : fence === fenceMatch[1] ? null : fence;
+    }
+    bodyEnd = i;
+  }
+
+  return bodyEnd;
+}
+
+function dedentBody(bodyLines: string[]): string {
+  const indents = bodyLines
+    .filter((line) => line.trim() !== '')
+    .map((line) => line.match(/^(\s*)/)?.[1].length ?? 0);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return bodyLines.map((line) => line.slice(common).replace(/\s+$/, '')).join('\n');
+}
+
+/** The node's title line and body as one editable string. */
+export function getNodeContent(node: OutlineNode): string {
+  return node.body ? `${node.text}\n${node.body}` : node.text;
+}
+
+export function splitNodeContent(content: string): { text: string; body: string } {
+  const [text, ...bodyLines] = content.split(/\r?\n/);
+  return { text, body: bodyLines.join('\n') };
+}
+
+/** Index of the first line after the YAML frontmatter, 0 when there is none. */
+export function getContentStart(lines: string[]): number {
+  if (lines[0]?.trim() !== '---') return 0;
+  const frontmatterEnd = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+  return frontmatterEnd !== -1 ? frontmatterEnd + 1 : 0;
+}
+
 export function parseOutline(markdown: string): OutlineNode[] {
   const lines = markdown.split(/\r?\n/);
   const rootNodes: OutlineNode[] = [];
   const levelStack: OutlineNode[] = [];
   const indentLevels: number[] = [];
 
-  for (let i = 0; i < lines.length; i++) {
+  // List items in the frontmatter (tags, aliases) are not nodes
+  for (let i = getContentStart(lines); i < lines.length; i++) {
     const line = lines[i];
-    const match = line.match(/^(\s*)([-*+]|\d+\.)(?:\s+(.*))?$/);
-    
+    const match = line.match(LIST_ITEM_PATTERN);
+
     if (!match) {
       continue; // Skip non-outline lines
     }
@@ -57,16 +123,21 @@ export function parseOutline(markdown: string): OutlineNode[] {
     let text = match[3] || '';
 
     const parsedCheckbox = parseCheckboxState(text);
-    text = parsedCheckbox.text;
+    const parsedMarkers = parseNodeMarkers(parsedCheckbox.text);
+    text = parsedMarkers.text;
+    const bodyEnd = findBodyEnd(lines, i, indentSpaces);
 
     const node: OutlineNode = {
       text: text,
       indent: indentSpaces,
       marker: marker,
       line: i,
-      endLine: i, // Will be updated after parsing all children
+      bodyEndLine: bodyEnd,
+      endLine: bodyEnd, // Will be updated after parsing all children
       children: [],
       checkbox: parsedCheckbox.checkbox,
+      markers: parsedMarkers.markers,
+      body: dedentBody(lines.slice(i + 1, bodyEnd + 1)),
     };
 
     // Clean up stacks when we move to a shallower or equal level
@@ -88,6 +159,7 @@ export function parseOutline(markdown: string): OutlineNode[] {
       levelStack.push(node);
     }
     levelStack[level] = node;
+    i = bodyEnd;
   }
 
   // Calculate endLine for each node after parsing
@@ -99,7 +171,7 @@ export function parseOutline(markdown: string): OutlineNode[] {
         // This node's endLine is the last child's endLine
         node.endLine = node.children[node.children.length - 1].endLine;
       }
-      // If no children, endLine remains the same as line
+      // If no children, endLine remains the end of the node's body
     });
   }
 
@@ -121,68 +193,49 @@ export function flattenOutline(nodes: OutlineNode[]): OutlineNode[] {
   return flat;
 }
 
-export class TextInputModal extends Modal {
-  result: string | null = null;
-  private initialValue: string;
-  private onSubmit: (value: string) => void;
-
-  constructor(app: App, initialValue: string, onSubmit: (value: string) => void) {
-    super(app);
-    this.initialValue = initialValue;
-    this.onSubmit = onSubmit;
-  }
-
-  onOpen() {
-    const { contentEl } = this;
-    contentEl.createEl('h2', { text: 'Neuen Text eingeben' });
-
-    new Setting(contentEl)
-      .setName('Text')
-      .addText((text) =>
-        text
-          .setValue(this.initialValue)
-          .onChange((value) => (this.result = value))
-      );
-
-    contentEl.createEl('br');
-
-    const buttonEl = contentEl.createEl('button', { text: 'Speichern' });
-    buttonEl.addEventListener('click', () => {
-      this.close();
-      this.onSubmit(this.result ?? this.initialValue);
+/** Like flattenOutline, but skips the descendants of collapsed nodes. */
+/** Nodes that are not inside a folded node; folded nodes for which `isOpen` is true are walked into too. */
+export function flattenVisibleOutline(
+  nodes: OutlineNode[],
+  isOpen: (node: OutlineNode) => boolean = () => false
+): OutlineNode[] {
+  const flat: OutlineNode[] = [];
+  function walk(arr: OutlineNode[]) {
+    arr.forEach((n) => {
+      flat.push(n);
+      if (!isCollapsed(n.markers) || isOpen(n)) {
+        walk(n.children);
+      }
     });
   }
+  walk(nodes);
+  return flat;
+}
 
-  onClose() {
-    this.contentEl.empty();
-  }
+export function countDescendants(node: OutlineNode): number {
+  return node.children.reduce((count, child) => count + 1 + countDescendants(child), 0);
 }
 
 export function isOutlineCompatible(markdown: string): boolean {
   const lines = markdown.split(/\r?\n/);
   
-  // Remove frontmatter if present
-  let startIndex = 0;
-  if (lines[0]?.trim() === '---') {
-    const frontmatterEnd = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
-    if (frontmatterEnd !== -1) {
-      startIndex = frontmatterEnd + 1;
-    }
-  }
-  
-  const contentLines = lines.slice(startIndex);
+  const contentLines = lines.slice(getContentStart(lines));
   const nonEmptyLines = contentLines.filter(line => line.trim() !== '');
   
   if (nonEmptyLines.length === 0) {
     return true;
   }
   
-  // Check if all non-empty lines are outline items
-  for (const line of nonEmptyLines) {
-    const isOutlineItem = line.match(/^\s*([-*+]|\d+\.)(?:\s+.*)?$/);
-    if (!isOutlineItem) {
+  // Check if all non-empty lines are outline items or their continuation lines
+  for (let i = 0; i < contentLines.length; i++) {
+    const line = contentLines[i];
+    if (line.trim() === '') continue;
+
+    const match = line.match(LIST_ITEM_PATTERN);
+    if (!match) {
       return false;
     }
+    i = findBodyEnd(contentLines, i, match[1]);
   }
   
   return true;
@@ -191,16 +244,7 @@ export function isOutlineCompatible(markdown: string): boolean {
 export function isEmptyContent(markdown: string): boolean {
   const lines = markdown.split(/\r?\n/);
   
-  // Remove frontmatter if present
-  let startIndex = 0;
-  if (lines[0]?.trim() === '---') {
-    const frontmatterEnd = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
-    if (frontmatterEnd !== -1) {
-      startIndex = frontmatterEnd + 1;
-    }
-  }
-  
-  const contentLines = lines.slice(startIndex);
+  const contentLines = lines.slice(getContentStart(lines));
   return contentLines.every(line => line.trim() === '');
 }
 
@@ -271,7 +315,7 @@ export function findCompleteSubtreeRange(lines: string[], node: OutlineNode): {
     }
     
     // If this line belongs to our subtree, extend the end
-    if (lineIndent.startsWith(baseIndent + '\t') || line.trim() === '') {
+    if (lineIndent.startsWith(baseIndent) || line.trim() === '') {
       end = i;
     }
   }
@@ -292,36 +336,3 @@ export function validateMoveOperation(
   
   return { isValid: true };
 }
-
-export async function openInternalLink(app: App, href: string, currentFilePath?: string): Promise<void> {
-  try {
-    const target = app.vault.getAbstractFileByPath(href);
-    if (target && target instanceof TFile) {
-      const ws: any = app.workspace;
-      let leaf = null;
-      if (typeof ws.getLeaf === 'function') {
-        leaf = ws.getLeaf(false);
-      } else if (ws.activeLeaf) {
-        leaf = ws.activeLeaf;
-      }
-
-      if (leaf) {
-        await leaf.openFile(target as TFile);
-        return;
-      }
-    }
-    // Fallback to workspace.openLinkText if available (newer Obsidian)
-    const ws: any = app.workspace;
-    if (ws && typeof ws.openLinkText === 'function') {
-      try {
-        await ws.openLinkText(href, currentFilePath || '', false);
-        return;
-      } catch (e) {
-        // ignore and fallback
-      }
-    }
-    console.warn('Unable to open internal link:', href);
-  } catch (error) {
-    console.error('openInternalLink failed:', error);
-  }
-}
@@ -0,0 +1,44 @@
+import { App, normalizePath, TFile } from 'obsidian';
+
+/** Returns `folder/name.ext`, or `folder/name N.ext` when that path is taken. */
+export function getAvailableFilePath(app: App, folderPath: string, baseName: string, extension: string): string {
+  const prefix = folderPath && folderPath !== '/' ? `${folderPath}/` : '';
+  let candidate = normalizePath(`${prefix}${baseName}.${extension}`);
+  for (let i = 1; app.vault.getAbstractFileByPath(candidate); i++) {
+    candidate = normalizePath(`${prefix}${baseName} ${i}.${extension}`);
+  }
+  return candidate;
+}
+
+export async function openInternalLink(app: App, href: string, currentFilePath?: string): Promise<void> {
+  try {
+    const target = app.vault.getAbstractFileByPath(href);
+    if (target && target instanceof TFile) {
+      const ws: any = app.workspace;
+      let leaf = null;
+      if (typeof ws.getLeaf === 'function') {
+        leaf = ws.getLeaf(false);
+      } else if (ws.activeLeaf) {
+        leaf = ws.activeLeaf;
+      }
+
+      if (leaf) {
+        await leaf.openFile(target as TFile);
+        return;
+      }
+    }
+    // Fallback to workspace.openLinkText if available (newer Obsidian)
+    const ws: any = app.workspace;
+    if (ws && typeof ws.openLinkText === 'function') {
+      try {
+        await ws.openLinkText(href, currentFilePath || '', false);
+        return;
+      } catch (e) {
+        // ignore and fallback
+      }
+    }
+    console.warn('Unable to open internal link:', href);
+  } catch (error) {
+    console.error('openInternalLink failed:', error);
+  }
+}
@@ -1,12 +1,17 @@
 import { MarkdownRenderer, Component } from 'obsidian';
-import cytoscape, { ElementDefinition, type LayoutOptions } from 'cytoscape';
+import cytoscape, { ElementDefinition } from 'cytoscape';
 // @ts-ignore - no types available for cytoscape-dagre
 import dagre from 'cytoscape-dagre';
 
-import { parseOutline, OutlineNode, openInternalLink } from '../utils/outline';
+import { parseOutline, OutlineNode, flattenOutline, flattenVisibleOutline, getNodeContent } from '../utils/outline';
+import { openInternalLink } from '../utils/vault-files';
+import { renderNodeIcon } from '../editor/node-editing';
+import { getNodeStyle } from '../domain/node-style';
 import { VerticalToolbar } from '../ui/toolbar/vertical-toolbar';
+import { FocusBreadcrumbs } from '../ui/toolbar/focus-breadcrumbs';
+import { MindmapSearchBar } from '../ui/toolbar/search-bar';
 import { MindmapView } from './mindmap-view';
-import { sortByMarkdownOrder } from '../utils/cytoscape';
+import { createCytoscapeLayout } from '../domain/mindmap-layouts';
 
 cytoscape.use(dagre);
 
@@ -87,6 +92,8 @@ export async function draw(view: MindmapView): Promise<void> {
     view.wrapper = view.contentEl.createDiv({ cls: 'mindmap-wrapper' });
     view.prepareWrapper();
     view.toolbar = new VerticalToolbar(view);
+    view.focusBreadcrumbs = new FocusBreadcrumbs(view);
+    view.searchBar = new MindmapSearchBar(view);
     view.refreshMobileToolbarPlacement();
   }
 
@@ -95,13 +102,17 @@ export async function draw(view: MindmapView): Promise<void> {
     view.wrapper.querySelectorAll('[data-overlay]').forEach((e) => e.remove());
   }
 
-  const flat: OutlineNode[] = [];
-  (function walk(arr: OutlineNode[]) {
-    arr.forEach((n) => {
-      flat.push(n);
-      walk(n.children);
-    });
-  })(parseOutline(view.data));
+  // Descendants of collapsed nodes are neither measured nor drawn. In focus mode
+  // the focused node is the only root, with its line numbers from the full document.
+  // A filtering search draws its matches and their ancestors, folded or not, and stepping
+  // to a search match shows the folded branches above it.
+  const outline = parseOutline(view.data);
+  const focused = view.getFocusedNode(outline);
+  const roots = focused ? [focused] : outline;
+  const flat: OutlineNode[] = view.isFilteringSearch()
+    ? flattenOutline(roots).filter((node) => view.getSearchResult(node.line) !== 'none')
+    : flattenVisibleOutline(roots, (node) => view.isSearchRevealed(node.line));
+  const visibleLines = new Set(flat.map((node) => node.line));
 
   const measureContainer = document.createElement('div');
   measureContainer.className = 'mindmap-measurement-container';
@@ -113,7 +124,9 @@ export async function draw(view: MindmapView): Promise<void> {
   for (const n of flat) {
     const nodeOptions = view.getNodeOptions();
     const targetWidth = nodeOptions.nodeWidth;
-    const measurementKey = `${targetWidth}\u0000${n.text}`;
+    const content = getNodeContent(n);
+    const { icon, frame } = getNodeStyle(n.markers);
+    const measurementKey = `${targetWidth}\u0000${icon ?? ''}\u0000${frame ? 'frame' : ''}\u0000${content}`;
     const cachedMeasurement = view.measurementCache.get(measurementKey);
 
     if (cachedMeasurement) {
@@ -129,12 +142,13 @@ export async function draw(view: MindmapView): Promise<void> {
     
     // Use CSS variable for measurement max width to avoid inline layout styles
     tmpBox.style.setProperty('--mindmap-target-width', `${targetWidth}px`);
+    tmpBox.classList.toggle('has-frame', frame === true);
 
-    if (n.text.trim() === '') {
+    if (content.trim() === '') {
       tmpBox.innerHTML = '&nbsp;';
     } else {
       // Improved text preprocessing for code blocks
-      let processedText = n.text;
+      let processedText = content;
       
       // Protect code blocks from interference
       const codeBlockRegex = /(```[\s\S]*?```|~~~[\s\S]*?~~~)/g;
@@ -195,9 +209,10 @@ export async function draw(view: MindmapView): Promise<void> {
         });
       } catch (error) {
         console.warn('MarkdownRenderer failed during measurement, using plain text:', error);
-        tmpBox.textContent = n.text;
+        tmpBox.textContent = content;
       }
     }
+    renderNodeIcon(tmpBox, icon);
 
     measureContainer.appendChild(tmpBox);
     
@@ -216,7 +231,7 @@ export async function draw(view: MindmapView): Promise<void> {
 
     // If we still get zero dimensions, use fallback measurements
     if (measuredW === 0 || measuredH === 0) {
-      console.warn('Zero dimensions detected for node:', n.text.substring(0, 50));
+      console.warn('Zero dimensions detected for node:', content.substring(0, 50));
       
       // Try to get dimensions from child elements
       const children = Array.from(tmpBox.children) as HTMLElement[];
@@ -238,7 +253,7 @@ export async function draw(view: MindmapView): Promise<void> {
       
       // Final fallback based on content
       if (measuredW === 0 || measuredH === 0) {
-        const textLength = n.text.length;
+        const textLength = content.length;
         measuredW = Math.min(targetWidth, Math.max(200, textLength * 8));
         measuredH = Math.max(60, Math.ceil(textLength / 30) * 24);
       }
@@ -283,7 +298,7 @@ export async function draw(view: MindmapView): Promise<void> {
     const dims = view.sizeMap.get(n.line)!;
     els.push({
       data: {
-        id: `n${n.line}`,
+        id: view.getCyNodeId(n.line),
         node: n,
         width: dims.w,
         height: dims.h,
@@ -292,36 +307,18 @@ export async function draw(view: MindmapView): Promise<void> {
     });
   }
   for (const p of flat) {
-    p.children.forEach((c) => {
+    p.children.filter((c) => visibleLines.has(c.line)).forEach((c) => {
       els.push({
         data: {
-          id: `e${p.line}-${c.line}`,
-          source: `n${p.line}`,
-          target: `n${c.line}`,
+          id: `e${view.getCyNodeId(p.line)}-${view.getCyNodeId(c.line)}`,
+          source: view.getCyNodeId(p.line),
+          target: view.getCyNodeId(c.line),
           order: orderByLine.get(c.line) ?? c.line,
         },
       });
     });
   }
 
-  const L = view.layoutOptions;
-  const layoutOpts = {
-    name: 'dagre',
-    rankDir: L.rankDir,
-    align: L.align,
-    nodeSep: L.nodeSep,
-    edgeSep: L.edgeSep,
-    rankSep: L.rankSep,
-    marginx: L.marginx,
-    marginy: L.marginy,
-    acyclicer: L.acyclicer,
-    ranker: L.ranker,
-    fit: false,
-    padding: 20,
-    nodeDimensionsIncludeLabels: false,
-    spacingFactor: L.spacingFactor,
-    sort: sortByMarkdownOrder,
-  } as unknown as LayoutOptions;
 
   if (!view.cy) {
     const canvas = view.wrapper.createDiv({ cls: 'mindmap-canvas' });
@@ -329,7 +326,7 @@ export async function draw(view: MindmapView): Promise<void> {
     view.cy = cytoscape({
       container: canvas,
       elements: els,
-      layout: layoutOpts,
+      layout: { name: 'preset' },
       boxSelectionEnabled: false,
       selectionType: 'single',
       style: [
@@ -373,10 +370,10 @@ export async function draw(view: MindmapView): Promise<void> {
       view.updateOverlays();
     });
 
-    view.cy.layout(layoutOpts).run();
+    view.cy.layout(createCytoscapeLayout(view.cy, view.layoutOptions, 20)).run();
   } else {
     view.cy.json({ elements: els });
-    view.cy.layout(layoutOpts).run();
+    view.cy.layout(createCytoscapeLayout(view.cy, view.layoutOptions, 20)).run();
   }
 
   view.cy.userPanningEnabled(false);
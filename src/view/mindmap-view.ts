@@ -7,12 +7,14 @@ import {
   Menu,
   Notice,
   Platform,
+  Hotkey,
+  ViewStateResult,
 } from 'obsidian';
 import { Core, type NodeSingular } from 'cytoscape';
 
 import '../styles/dnd-css';
 
-import { parseOutline, OutlineNode, isOutlineCompatible, isEmptyContent } from '../utils/outline';
+import { parseOutline, flattenOutline, OutlineNode, isOutlineCompatible, isEmptyContent, splitNodeContent } from '../utils/outline';
 import { VIEW_TYPE_MINDMAP } from '../constants';
 import MindmapPlugin from '../main';
 import {
@@ -30,31 +32,61 @@ import {
   cutPasteMarkdownAsChildren,
   duplicateSubtree,
   deleteNodeKeepChildren,
+  setNodesCollapsed,
+  collapseToLevel,
+  indentNodes,
+  outdentNodes,
+  moveNodesAmongSiblings,
+  setSubtreeListType,
+  setNodesStyle,
+  processDocument,
   DocString,
-  ChildInsertPosition,
-  SiblingInsertPosition,
 } from '../domain/mindmap-file';
+import { ChildInsertPosition, SiblingInsertPosition, isOrderedMarker, preparePastedOutlineLines } from '../domain/outline-transforms';
 import { VerticalToolbar } from '../ui/toolbar/vertical-toolbar';
+import { FocusBreadcrumbs } from '../ui/toolbar/focus-breadcrumbs';
+import type { MindmapSearchBar } from '../ui/toolbar/search-bar';
 import { draw as drawMindmap } from './draw';
 import { updateOverlays as updateOverlaysFn, startNodeEditing } from './update-overlays';
 import { NodeOptions } from '../ui/menus/node-options-menu';
+import { NodeStyleMenu } from '../ui/menus/node-style-menu';
 import { DeleteNodeModal } from '../ui/modals/delete-node-modal';
-import { FrontmatterStorage } from '../storage/frontmatter-storage';
-import { CommandHistory, MindmapCommand } from '../history/command-history';
+import { ExcerptOutlineMindmapData, FrontmatterStorage } from '../storage/frontmatter-storage';
+import { resolveMindmapData } from '../storage/plugin-settings';
+import { CommandHistory, DEFAULT_HISTORY_DEPTH, MindmapCommand } from '../history/command-history';
 import { GeneralSettings } from '../ui/menus/general-settings-menu';
 import { createDefaultLayoutOptions, LayoutOptions } from '../domain/layout-options';
 import { MindmapViewState, SelectionSnapshot } from './view-state';
-import { sortByMarkdownOrder } from '../utils/cytoscape';
+import { createCytoscapeLayout } from '../domain/mindmap-layouts';
 import { resetToolbarPlacement } from '../ui/toolbar/toolbar-placement';
+import { isCollapsed } from '../domain/node-markers';
+import { NodeStyle } from '../domain/node-style';
+import { NodeIdentityTracker } from '../domain/node-identity';
+import { NodeSearchQuery, NodeSearchResult, parseSearchQuery, searchOutline } from '../domain/node-search';
+import { renderMindmapSvg, rasterizeSvg } from '../formats/image-export';
+import { CanvasLayoutBox, layoutToCanvas } from '../formats/canvas';
+import { mermaidMindmapToMarkdown, outlineToMermaidMindmap } from '../formats/mermaid';
+import { outlineToMarkmap } from '../formats/markmap';
+import { ExportScaleModal } from '../ui/modals/export-scale-modal';
+import { getAvailableFilePath } from '../utils/vault-files';
+import { MINDMAP_VIEW_ACTIONS, MindmapViewAction, matchesHotkey } from './view-actions';
 
 export type { LayoutOptions, MindmapViewState };
 
+// Obsidian's hotkey manager is not part of the public API
+interface HotkeyManagerLike {
+  customKeys?: Record<string, Hotkey[]>;
+}
+
 export class MindmapView extends TextFileView {
   public file: TFile | null = null;
   public cy?: Core;
   public wrapper!: HTMLDivElement;
   public firstFitDone = false;
   public toolbar?: VerticalToolbar;
+  public focusBreadcrumbs?: FocusBreadcrumbs;
+  public searchBar?: MindmapSearchBar;
+  public searchHidesNonMatching = false;
   public isUpdatingOverlays = false;
   public frontmatterStorage: FrontmatterStorage;
   public commandHistory: CommandHistory;
@@ -70,8 +102,17 @@ export class MindmapView extends TextFileView {
   private hasDraggedSelectionBox: boolean = false;
   private suppressNextEmptyClick: boolean = false;
   private mindmapClipboardText: string | null = null;
+  private nodeStyleMenu: NodeStyleMenu | null = null;
   private pendingCutNodeLines: Set<number> = new Set();
   private selectionHistory: SelectionSnapshot[] = [];
+  public nodeIdentity = new NodeIdentityTracker();
+  private focusNodeId: string | null = null;
+  private pendingFocus: SelectionSnapshot | null = null;
+  private pendingSelection: SelectionSnapshot | null = null;
+  private searchQuery: NodeSearchQuery | null = null;
+  private searchResults = new Map<number, NodeSearchResult>();
+  // Folded nodes drawn open to show a search match; the file keeps them folded
+  private searchRevealedLines: Set<number> = new Set();
   private zoomSaveTimeout: number | null = null;
   private boxStartX: number = 0;
   private boxStartY: number = 0;
@@ -202,7 +243,7 @@ export class MindmapView extends TextFileView {
 
       if (
         target?.closest(
-          '.mindmap-overlay, .vertical-toolbar, .node-editor, .cm-editor, button, a, input, select, textarea, [contenteditable="true"]'
+          '.mindmap-overlay, .vertical-toolbar, .mindmap-focus-breadcrumbs, .node-editor, .cm-editor, button, a, input, select, textarea, [contenteditable="true"]'
         )
       ) {
         return;
@@ -704,6 +745,20 @@ export class MindmapView extends TextFileView {
           .onClick(() => void this.copyNodesToClipboard(selectedNodes));
       });
 
+      menu.addItem((item) => {
+        item
+          .setTitle('Copy as Mermaid mindmap')
+          .setIcon('network')
+          .onClick(() => void this.copyNodesAs('mermaid', selectedNodes));
+      });
+
+      menu.addItem((item) => {
+        item
+          .setTitle('Copy as Markmap')
+          .setIcon('list-tree')
+          .onClick(() => void this.copyNodesAs('markmap', selectedNodes));
+      });
+
       menu.addItem((item) => {
         item
           .setTitle(copyCount > 1 ? `Cut ${copyCount} nodes` : 'Cut')
@@ -748,6 +803,23 @@ export class MindmapView extends TextFileView {
           .onClick(() => void this.convertNodesToCheckedTask(selectedNodes));
       });
 
+      if (targetNode.children.length > 0) {
+        const ordered = isOrderedMarker(targetNode.children[0].marker);
+        menu.addItem((item) => {
+          item
+            .setTitle(ordered ? 'Convert subtree to bulleted list' : 'Convert subtree to numbered list')
+            .setIcon(ordered ? 'list' : 'list-ordered')
+            .onClick(() => void this.executeSetListTypeCommand(targetNode, !ordered));
+        });
+      }
+
+      menu.addItem((item) => {
+        item
+          .setTitle(copyCount > 1 ? `Style ${copyCount} nodes…` : 'Style…')
+          .setIcon('palette')
+          .onClick(() => this.openNodeStyleMenu(targetNode, selectedNodes));
+      });
+
       menu.addSeparator();
 
       menu.addItem((item) => {
@@ -763,15 +835,42 @@ export class MindmapView extends TextFileView {
           .setIcon('copy-plus')
           .onClick(() => void this.executeDuplicateNodeCommand(targetNode));
       });
+
+      menu.addSeparator();
+
+      menu.addItem((item) => {
+        item
+          .setTitle('Focus on this node')
+          .setIcon('focus')
+          .onClick(() => void this.focusNode(targetNode));
+      });
     }
 
-    if (copyCount === 0 && !targetNode) {
+    if (this.isFocused()) {
+      menu.addItem((item) => {
+        item
+          .setTitle('Show whole map')
+          .setIcon('home')
+          .onClick(() => void this.clearFocus());
+      });
+    }
+
+    if (copyCount === 0 && !targetNode && !this.isFocused()) {
       menu.addItem((item) => item.setTitle('No node selected').setDisabled(true));
     }
 
     menu.showAtMouseEvent(event);
   }
 
+  private openNodeStyleMenu(targetNode: OutlineNode, nodes: OutlineNode[]): void {
+    this.nodeStyleMenu?.close();
+    const anchor = this.wrapper?.querySelector<HTMLElement>(`[data-overlay][data-node-line="${targetNode.line}"]`);
+    if (!anchor) return;
+
+    const lines = nodes.length > 0 ? nodes.map((node) => node.line) : [targetNode.line];
+    this.nodeStyleMenu = new NodeStyleMenu(anchor, this, lines);
+  }
+
   private getSelectedNodesForContext(contextNode: OutlineNode | null): OutlineNode[] {
     const flat = this.getFlatNodes();
     const selected = flat
@@ -803,7 +902,7 @@ export class MindmapView extends TextFileView {
       .join('\n');
   }
 
-  private async copyNodesToClipboard(nodes: OutlineNode[]): Promise<boolean> {
+  public async copyNodesToClipboard(nodes: OutlineNode[]): Promise<boolean> {
     const text = this.getNodesAsMarkdown(nodes);
     if (!text) return false;
 
@@ -821,7 +920,7 @@ export class MindmapView extends TextFileView {
     }
   }
 
-  private async cutNodesToClipboard(nodes: OutlineNode[]): Promise<void> {
+  public async cutNodesToClipboard(nodes: OutlineNode[]): Promise<void> {
     const text = this.getNodesAsMarkdown(nodes);
     const topLevelNodes = this.getTopLevelNodes(nodes);
     if (!text || topLevelNodes.length === 0) return;
@@ -840,6 +939,24 @@ export class MindmapView extends TextFileView {
     this.wrapper?.focus();
   }
 
+  /** Copies the nodes, or the whole map when none are given, as a Mermaid mindmap or Markmap. */
+  public async copyNodesAs(format: 'mermaid' | 'markmap', nodes: OutlineNode[]): Promise<void> {
+    const markdown = this.getNodesAsMarkdown(nodes.length > 0 ? nodes : this.getFlatNodes());
+    if (!markdown) return;
+
+    const roots = parseOutline(preparePastedOutlineLines(markdown, '').join('\n'));
+    const title = this.file?.basename ?? 'Mindmap';
+    const text = format === 'mermaid' ? outlineToMermaidMindmap(roots, title) : outlineToMarkmap(roots, title);
+
+    try {
+      await navigator.clipboard.writeText(text);
+      new Notice(format === 'mermaid' ? 'Copied as Mermaid mindmap.' : 'Copied as Markmap.');
+    } catch (error) {
+      console.error('Copy failed:', error);
+      new Notice('Could not copy to the clipboard.');
+    }
+  }
+
   private hasUnselectedDescendants(nodes: OutlineNode[], selectedLines: Set<number>): boolean {
     const hasUnselectedDescendant = (node: OutlineNode): boolean => {
       for (const child of node.children) {
@@ -857,21 +974,20 @@ export class MindmapView extends TextFileView {
     if (!this.file || nodes.length === 0) return;
 
     const restoreSelection = this.getSelectionRestoreCandidate(new Set(nodes.map((node) => node.line)));
-    const beforeState = this.data;
-    const newDoc = await deleteMultipleNodesKeepChildren(this.app, this.file, nodes);
+    const { before, after } = await deleteMultipleNodesKeepChildren(this.app, this.file, nodes);
 
-    if (newDoc === beforeState) return;
+    if (after === before) return;
 
     const command: MindmapCommand = {
       type: 'delete-node-keep-children',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(nodes[0]),
       metadata: { count: nodes.length }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
     this.selectedNodeLines.clear();
     this.restoreSelectionAfterDeletion(restoreSelection);
   }
@@ -898,7 +1014,7 @@ export class MindmapView extends TextFileView {
     }).open();
   }
 
-  private async pasteClipboardAsChildren(targetNode: OutlineNode): Promise<void> {
+  public async pasteClipboardAsChildren(targetNode: OutlineNode): Promise<void> {
     try {
       let text = '';
 
@@ -920,7 +1036,7 @@ export class MindmapView extends TextFileView {
         return;
       }
 
-      await this.executePasteNodesCommand(targetNode, text);
+      await this.executePasteNodesCommand(targetNode, mermaidMindmapToMarkdown(text) ?? text);
     } catch (error) {
       console.error('Paste failed:', error);
       new Notice('Paste failed.');
@@ -935,106 +1051,67 @@ export class MindmapView extends TextFileView {
       .sort((a, b) => a.line - b.line);
   }
 
-  private getNodeByLine(nodeLine: number): OutlineNode | null {
+  public getNodeByLine(nodeLine: number): OutlineNode | null {
     return this.getFlatNodes().find((node) => node.line === nodeLine) ?? null;
   }
 
-  public normalizeNodeText(text: string, notice: boolean = true): string {
-    if (!/[\r\n]/.test(text)) return text.trim();
-
-    const normalized = text
-      .replace(/\r?\n+/g, ' ')
-      .replace(/[ \t]+/g, ' ')
-      .trim();
+  /** Trims the node's title line and drops blank lines around its body. */
+  public normalizeNodeText(text: string): string {
+    const { text: title, body } = splitNodeContent(text);
+    const normalizedBody = body
+      .split(/\r?\n/)
+      .map((line) => line.replace(/\s+$/, ''))
+      .join('\n')
+      .replace(/^\n+|\n+$/g, '');
 
-    if (notice) {
-      new Notice('Line breaks inside a node were removed.');
-    }
-
-    return normalized;
+    return normalizedBody ? `${title.trim()}\n${normalizedBody}` : title.trim();
   }
 
   private handleWrapperKeydown = (event: KeyboardEvent): void => {
     const target = event.target as HTMLElement | null;
     if (target?.closest('.node-editor, .cm-editor, input, textarea, select, [contenteditable="true"]')) return;
+    // Obsidian already ran a hotkey the user assigned to one of our commands
+    if (event.defaultPrevented) return;
 
-    if ((event.metaKey || event.ctrlKey) && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
-      if (this.selectedNodeLines.size === 1) {
-        event.preventDefault();
-        const selectedNode = this.getNodeByLine(Array.from(this.selectedNodeLines)[0]);
-        if (selectedNode) {
-          void this.executeAddSiblingCommand(selectedNode, event.key === 'ArrowLeft' ? 'before' : 'after');
-        }
-      }
-      return;
-    }
-
-    if ((event.metaKey || event.ctrlKey) && event.key === 'ArrowDown') {
-      if (this.selectedNodeLines.size === 1) {
-        event.preventDefault();
-        const selectedNode = this.getNodeByLine(Array.from(this.selectedNodeLines)[0]);
-        if (selectedNode) {
-          void this.executeAddChildCommand(selectedNode, 'last');
-        }
-      }
-      return;
-    }
+    const action = MINDMAP_VIEW_ACTIONS.find((candidate) =>
+      this.getActionHotkeys(candidate).some((hotkey) => matchesHotkey(event, hotkey))
+    );
+    if (!action?.isAvailable(this)) return;
 
-    if (event.key === 'Enter') {
-      if (this.selectedNodeLines.size === 1) {
-        event.preventDefault();
-        const selectedNodeLine = Array.from(this.selectedNodeLines)[0];
-        void this.enterEditModeForNodeByLine(selectedNodeLine);
-      }
-      return;
-    }
+    event.preventDefault();
+    event.stopPropagation();
+    action.run(this);
+  };
 
-    if (event.key === 'ArrowUp' || event.key === 'ArrowDown' || event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
-      event.preventDefault();
-      this.navigateSelection(event.key.replace('Arrow', '').toLowerCase() as 'up' | 'down' | 'left' | 'right');
-      this.centerSelectedNodeInView();
-      return;
-    }
+  private getActionHotkeys(action: MindmapViewAction): Hotkey[] {
+    const hotkeyManager = (this.app as { hotkeyManager?: HotkeyManagerLike }).hotkeyManager;
+    return hotkeyManager?.customKeys?.[`${this.plugin.manifest.id}:${action.id}`] ?? action.defaultHotkeys;
+  }
 
-    if (event.key === 'Delete' || event.key === 'Backspace') {
-      event.preventDefault();
-      if (this.selectedNodeLines.size > 0) {
-        const flat = this.getFlatNodes();
-        const nodesToDelete = flat.filter(n => this.selectedNodeLines.has(n.line));
-        void this.deleteNodesWithConfirmation(nodesToDelete);
-      }
-      return;
-    }
+  public getSelectedNodes(): OutlineNode[] {
+    return this.getFlatNodes().filter((node) => this.selectedNodeLines.has(node.line));
+  }
 
-    if ((event.metaKey || event.ctrlKey) && event.key === 'c') {
-      if (this.selectedNodeLines.size > 0) {
-        event.preventDefault();
-        const flat = this.getFlatNodes();
-        const nodesToCopy = flat.filter(n => this.selectedNodeLines.has(n.line));
-        void this.copyNodesToClipboard(nodesToCopy);
-      }
-      return;
-    }
+  public getSingleSelectedNode(): OutlineNode | null {
+    if (this.selectedNodeLines.size !== 1) return null;
+    return this.getNodeByLine(Array.from(this.selectedNodeLines)[0]);
+  }
 
-    if ((event.metaKey || event.ctrlKey) && event.key === 'x') {
-      if (this.selectedNodeLines.size > 0) {
-        event.preventDefault();
-        const flat = this.getFlatNodes();
-        const nodesToCut = flat.filter(n => this.selectedNodeLines.has(n.line));
-        void this.cutNodesToClipboard(nodesToCut);
-      }
-      return;
-    }
+  public moveSelection(direction: 'up' | 'down' | 'left' | 'right'): void {
+    this.navigateSelection(direction);
+    this.centerSelectedNodeInView();
+  }
 
-    if ((event.metaKey || event.ctrlKey) && event.key === 'v') {
-      if (this.selectedNodeLines.size === 1) {
-        event.preventDefault();
-        const targetNode = this.getNodeByLine(Array.from(this.selectedNodeLines)[0]);
-        if (targetNode) void this.pasteClipboardAsChildren(targetNode);
-      }
-      return;
+  public async toggleSelectedTasks(): Promise<void> {
+    const nodes = this.getSelectedNodes();
+    if (nodes.length === 1) {
+      await this.toggleNodeCheckbox(nodes[0]);
+    } else if (nodes.every((node) => node.checkbox === 'checked')) {
+      await this.convertNodesToTask(nodes);
+    } else {
+      await this.convertNodesToCheckedTask(nodes);
     }
-  };
+  }
 
   public generalSettings: GeneralSettings = {
     keyboardNavigation: 'hierarchical',
@@ -1045,10 +1122,16 @@ export class MindmapView extends TextFileView {
     nodeWidth: 300
   };
 
-  constructor(leaf: WorkspaceLeaf, _plugin: MindmapPlugin) {
+  private plugin: MindmapPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: MindmapPlugin) {
     super(leaf);
+    this.plugin = plugin;
     this.frontmatterStorage = new FrontmatterStorage(this.app);
-    this.commandHistory = new CommandHistory(this.app);
+    this.commandHistory = new CommandHistory(
+      this.app,
+      () => this.plugin.settings.historyDepth ?? DEFAULT_HISTORY_DEPTH
+    );
   }
 
   getViewType(): string {
@@ -1063,6 +1146,28 @@ export class MindmapView extends TextFileView {
     return this.data;
   }
 
+  getState(): Record<string, unknown> {
+    const state = super.getState();
+    const focused = this.getFocusedNode();
+    if (focused) {
+      const focus: SelectionSnapshot = { line: focused.line, text: focused.text };
+      state.focus = focus;
+    }
+    return state;
+  }
+
+  async setState(state: MindmapViewState, result: ViewStateResult): Promise<void> {
+    this.focusNodeId = null;
+    this.pendingFocus = state?.focus ?? null;
+    this.pendingSelection = state?.select ?? null;
+    await super.setState(state, result);
+
+    // Loading a new file already drew and resolved the focus; the same file is not reloaded
+    if ((this.pendingFocus || this.pendingSelection) && this.cy) {
+      await this.draw();
+    }
+  }
+
   public isLocalUpdate: boolean = false;
 
   setViewData(d: string): void {
@@ -1082,11 +1187,12 @@ export class MindmapView extends TextFileView {
   private async createFirstNode(): Promise<void> {
     if (!this.file) return;
     
-    const newContent = this.data + (this.data.trim() === '' ? '' : '\n') + '- ';
-    this.data = newContent;
-    
-    // Persist the change
-    await this.app.vault.modify(this.file, newContent);
+    try {
+      this.data = (await processDocument(this.app, this.file, (doc) => doc + (doc.trim() === '' ? '' : '\n') + '- ')).after;
+    } catch (error) {
+      new Notice(error instanceof Error ? error.message : String(error));
+      return;
+    }
     
     // Redraw to show the new node
     await this.draw();
@@ -1167,6 +1273,7 @@ export class MindmapView extends TextFileView {
     // Record command in history
     if (command) {
       this.commandHistory.executeCommand(command);
+      this.saveHistory();
     }
     
     // Always use incremental update - no special cases
@@ -1262,6 +1369,7 @@ export class MindmapView extends TextFileView {
     this.mobileToolbarPlacementTimeouts.forEach((timeoutId) => window.clearTimeout(timeoutId));
     this.mobileToolbarPlacementTimeouts = [];
     if (this.wrapper) resetToolbarPlacement(this.wrapper);
+    this.nodeStyleMenu?.close();
     this.cy?.destroy();
     
     // Clean up CSS when last mindmap view closes
@@ -1285,34 +1393,140 @@ export class MindmapView extends TextFileView {
       return;
     }
     
+    const selectionRequested = this.pendingSelection !== null;
+    this.syncNodeIdentity();
+    this.updateSearchResults();
     await drawMindmap(this);
+    this.focusBreadcrumbs?.update();
+    this.updateSearchBarCount();
+
+    if (selectionRequested && this.selectedNodeLines.size > 0) {
+      this.updateSelectionStyling();
+      this.centerSelectedNodeInView();
+    }
+  }
+
+  /** Carries line-based view state over to the current document using stable node ids. */
+  private syncNodeIdentity(): void {
+    const flat: OutlineNode[] = [];
+    (function walk(arr: OutlineNode[]) {
+      arr.forEach((node) => {
+        flat.push(node);
+        walk(node.children);
+      });
+    })(parseOutline(this.data));
+
+    const lineMap = this.nodeIdentity.update(flat);
+    const remap = (lines: Set<number>) =>
+      new Set([...lines].map((line) => lineMap.get(line)).filter((line): line is number => line !== undefined));
+
+    this.selectedNodeLines = remap(this.selectedNodeLines);
+    this.pendingCutNodeLines = remap(this.pendingCutNodeLines);
+    this.searchRevealedLines = remap(this.searchRevealedLines);
+    if (this.pendingEditNodeLine !== null) {
+      this.pendingEditNodeLine = lineMap.get(this.pendingEditNodeLine) ?? null;
+    }
+
+    // Snapshots are updated in place, restore candidates taken before a delete follow along
+    this.selectionHistory = this.selectionHistory.filter((snapshot) => {
+      const line = lineMap.get(snapshot.line);
+      if (line === undefined) return false;
+      snapshot.line = line;
+      return true;
+    });
+
+    if (this.pendingFocus) {
+      const snapshot = this.pendingFocus;
+      this.pendingFocus = null;
+      const node = flat.find((candidate) => candidate.line === snapshot.line && candidate.text === snapshot.text)
+        ?? flat.find((candidate) => candidate.text === snapshot.text);
+      this.focusNodeId = node?.id ?? null;
+    }
+
+    if (this.pendingSelection) {
+      const snapshot = this.pendingSelection;
+      this.pendingSelection = null;
+      const node = flat.find((candidate) => candidate.line === snapshot.line && candidate.text === snapshot.text)
+        ?? flat.find((candidate) => candidate.text === snapshot.text);
+      if (node) this.selectedNodeLines = new Set([node.line]);
+    }
+
+    // The focused node was deleted, fall back to the whole map
+    if (this.focusNodeId && this.nodeIdentity.getLine(this.focusNodeId) === undefined) {
+      this.focusNodeId = null;
+      this.firstFitDone = false;
+      this.app.workspace.requestSaveLayout();
+    }
+  }
+
+  /* ── Focus mode ─────────────────────────── */
+
+  /** The focused node and its ancestors, outermost first; empty without focus. */
+  public getFocusPath(roots: OutlineNode[] = parseOutline(this.data)): OutlineNode[] {
+    const line = this.focusNodeId ? this.nodeIdentity.getLine(this.focusNodeId) : undefined;
+    if (line === undefined) return [];
+
+    const path: OutlineNode[] = [];
+    let nodes: OutlineNode[] = roots;
+    while (nodes.length > 0) {
+      const next: OutlineNode | undefined = nodes.find((node): boolean => line >= node.line && line <= node.endLine);
+      if (!next) return [];
+      path.push(next);
+      if (next.line === line) return path;
+      nodes = next.children;
+    }
+    return [];
+  }
+
+  public getFocusedNode(roots?: OutlineNode[]): OutlineNode | null {
+    const path = this.getFocusPath(roots);
+    return path[path.length - 1] ?? null;
+  }
+
+  public isFocused(): boolean {
+    return this.getFocusedNode() !== null;
+  }
+
+  /** Draws only the node's subtree; edits still go to the node's lines in the full document. */
+  public async focusNode(node: OutlineNode): Promise<void> {
+    const current = this.resolveNode(node);
+    if (!current?.id) return;
+
+    this.focusNodeId = current.id;
+    this.firstFitDone = false;
+    this.app.workspace.requestSaveLayout();
+    await this.draw();
+    this.selectNode(current.line);
+  }
+
+  public async clearFocus(): Promise<void> {
+    const focused = this.getFocusedNode();
+    if (!focused) return;
+
+    this.focusNodeId = null;
+    this.firstFitDone = false;
+    this.app.workspace.requestSaveLayout();
+    await this.draw();
+    this.selectNode(focused.line);
+  }
+
+  public getCyNodeId(line: number): string {
+    return `n${this.nodeIdentity.getId(line) ?? `l${line}`}`;
+  }
+
+  /** Looks a node up again by its id, for callers that held on to it across redraws. */
+  public resolveNode(node: OutlineNode): OutlineNode | null {
+    const line = node.id ? this.nodeIdentity.getLine(node.id) : node.line;
+    if (line === undefined) return null;
+    return this.getFlatNodes().find((candidate) => candidate.line === line) ?? null;
   }
 
   /* ── relayout() ─────────────────────────── */
   public relayout(): void {
     if (!this.cy) return;
 
-    const L = this.layoutOptions;
-    const layoutObj = {
-      name: 'dagre',
-      rankDir: L.rankDir,
-      align: L.align,
-      nodeSep: L.nodeSep,
-      edgeSep: L.edgeSep,
-      rankSep: L.rankSep,
-      marginx: L.marginx,
-      marginy: L.marginy,
-      acyclicer: L.acyclicer,
-      ranker: L.ranker,
-      fit: false,
-      padding: 30,
-      nodeDimensionsIncludeLabels: false,
-      spacingFactor: L.spacingFactor,
-      sort: sortByMarkdownOrder,
-    } as unknown as import('cytoscape').LayoutOptions;
-
     // Don't reset firstFitDone - preserve current zoom level
-    this.cy.layout(layoutObj).run();
+    this.cy.layout(createCytoscapeLayout(this.cy, this.layoutOptions, 30)).run();
   }
 
   /* ── Manual fit method for toolbar ─────── */
@@ -1323,66 +1537,212 @@ export class MindmapView extends TextFileView {
     this.rememberCurrentZoom(true);
   }
 
+  /* ── Image export ───────────────────────── */
+  public async exportAsSvg(): Promise<void> {
+    if (!this.file) return;
+
+    try {
+      const { svg } = renderMindmapSvg(this);
+      const path = getAvailableFilePath(this.app, this.file.parent?.path ?? '', this.file.basename, 'svg');
+      await this.app.vault.create(path, svg);
+      new Notice(`Exported mindmap to ${path}`);
+    } catch (error) {
+      new Notice(`Could not export the mindmap as SVG: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  public async exportAsPng(scale: number): Promise<void> {
+    if (!this.file) return;
+
+    try {
+      const { svg, width, height } = renderMindmapSvg(this);
+      const png = await rasterizeSvg(svg, width, height, scale);
+      const path = getAvailableFilePath(this.app, this.file.parent?.path ?? '', this.file.basename, 'png');
+      await this.app.vault.createBinary(path, png);
+      new Notice(`Exported mindmap to ${path}`);
+    } catch (error) {
+      new Notice(`Could not export the mindmap as PNG: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  public openPngExport(): void {
+    new ExportScaleModal(this.app, (scale) => void this.exportAsPng(scale)).open();
+  }
+
+  /** Writes the current layout to a `.canvas` file, one text card per visible node. */
+  public async exportAsCanvas(): Promise<void> {
+    if (!this.file) return;
+
+    try {
+      const boxes: CanvasLayoutBox[] = [];
+      this.cy?.nodes().forEach((cyNode) => {
+        const node = cyNode.data('node') as OutlineNode | undefined;
+        const dims = node ? this.sizeMap.get(node.line) : undefined;
+        if (!node || !dims) return;
+        const { x, y } = cyNode.position();
+        boxes.push({ node, x, y, w: dims.w, h: dims.h });
+      });
+      if (boxes.length === 0) {
+        throw new Error('The mindmap is empty.');
+      }
+
+      const canvas = JSON.stringify(layoutToCanvas(boxes), null, '\t');
+      const path = getAvailableFilePath(this.app, this.file.parent?.path ?? '', this.file.basename, 'canvas');
+      await this.app.vault.create(path, canvas);
+      new Notice(`Exported mindmap to ${path}`);
+    } catch (error) {
+      new Notice(`Could not export the mindmap as canvas: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   async onLoadFile(file: TFile): Promise<void> {
+    this.commandHistory.clear();
+    const savedHistory = this.plugin.getFileHistory(file.path);
+    if (savedHistory) {
+      this.commandHistory.restoreHistoryState(savedHistory);
+    }
+
     super.onLoadFile(file);
     
     if (this.frontmatterStorage && file) {
-      const mindmapData = await this.frontmatterStorage.loadMindmapData(file);
-      
-      // Load general settings
-      if (mindmapData.keyboardNavigation) {
-        this.generalSettings.keyboardNavigation = mindmapData.keyboardNavigation;
-      }
+      await this.loadFileSettings(file);
+    }
+  }
 
-      if (typeof mindmapData.showCheckboxesOnHover === 'boolean') {
-        this.generalSettings.showCheckboxesOnHover = mindmapData.showCheckboxesOnHover;
-      }
+  async onUnloadFile(file: TFile): Promise<void> {
+    this.plugin.saveFileHistory(file.path, this.commandHistory.getHistoryState());
+    await super.onUnloadFile(file);
+  }
 
-      // Load node width from frontmatter (flat structure)
-      if (typeof mindmapData.nodeWidth === 'number') {
-        this.nodeOptions.nodeWidth = mindmapData.nodeWidth;
-        this.toolbar?.setNodeOptions(this.nodeOptions);
-      }
-      
-      // Load layout options from frontmatter (flat structure)
-      const layoutUpdates: Partial<LayoutOptions> = {};
-      if (mindmapData.rankDir) layoutUpdates.rankDir = mindmapData.rankDir;
-      if (mindmapData.align) layoutUpdates.align = mindmapData.align;
-      if (typeof mindmapData.nodeSep === 'number') layoutUpdates.nodeSep = mindmapData.nodeSep;
-      if (typeof mindmapData.edgeSep === 'number') layoutUpdates.edgeSep = mindmapData.edgeSep;
-      if (typeof mindmapData.rankSep === 'number') layoutUpdates.rankSep = mindmapData.rankSep;
-      if (typeof mindmapData.marginx === 'number') layoutUpdates.marginx = mindmapData.marginx;
-      if (typeof mindmapData.marginy === 'number') layoutUpdates.marginy = mindmapData.marginy;
-      if (mindmapData.acyclicer) layoutUpdates.acyclicer = mindmapData.acyclicer;
-      if (mindmapData.ranker) layoutUpdates.ranker = mindmapData.ranker;
-      if (typeof mindmapData.spacingFactor === 'number') layoutUpdates.spacingFactor = mindmapData.spacingFactor;
-      if (typeof mindmapData.zoomFactor === 'number') layoutUpdates.zoomFactor = mindmapData.zoomFactor;
-      
-      if (Object.keys(layoutUpdates).length > 0) {
-        this.layoutOptions = { ...this.layoutOptions, ...layoutUpdates };
-      }
+  private saveHistory(): void {
+    if (this.file) {
+      this.plugin.saveFileHistory(this.file.path, this.commandHistory.getHistoryState());
+    }
+  }
+
+  private async loadFileSettings(file: TFile): Promise<void> {
+    const { data, errors } = this.frontmatterStorage.readMindmapData(file);
+    if (errors.length > 0) {
+      new Notice(`Some mindmap settings in ${file.name} were ignored: ${errors.join('; ')}.`);
+    }
+    this.applyMindmapData(data);
+  }
+
+  /** Applies the vault defaults from the settings tab, then the file's frontmatter overrides. */
+  private applyMindmapData(fileData: ExcerptOutlineMindmapData): void {
+    const mindmapData = resolveMindmapData(this.plugin.settings, fileData);
+
+    this.generalSettings = {
+      keyboardNavigation: mindmapData.keyboardNavigation ?? 'hierarchical',
+      showCheckboxesOnHover: mindmapData.showCheckboxesOnHover ?? false,
+    };
+
+    this.nodeOptions = { nodeWidth: mindmapData.nodeWidth ?? 300 };
+    this.toolbar?.setNodeOptions(this.nodeOptions);
+
+    this.layoutOptions = {
+      ...this.getVaultLayoutOptions(),
+      layoutType: mindmapData.layoutType ?? 'tree',
+      rankDir: mindmapData.rankDir ?? 'TB',
+      align: mindmapData.align,
+      nodeSep: mindmapData.nodeSep ?? 50,
+      edgeSep: mindmapData.edgeSep ?? 10,
+      rankSep: mindmapData.rankSep ?? 50,
+      marginx: mindmapData.marginx ?? 0,
+      marginy: mindmapData.marginy ?? 0,
+      acyclicer: mindmapData.acyclicer,
+      ranker: mindmapData.ranker ?? 'network-simplex',
+      spacingFactor: mindmapData.spacingFactor ?? 1.0,
+      zoomFactor: mindmapData.zoomFactor,
+      radialRingSep: mindmapData.radialRingSep ?? 80,
+      balancedLevelSep: mindmapData.balancedLevelSep ?? 80,
+      balancedNodeSep: mindmapData.balancedNodeSep ?? 20,
+      indentSize: mindmapData.indentSize ?? 40,
+      indentRowSep: mindmapData.indentRowSep ?? 12,
+    };
+  }
+
+  private getVaultLayoutOptions() {
+    const settings = this.plugin.settings;
+    const defaults = createDefaultLayoutOptions();
+    return {
+      ...defaults,
+      layoutType: settings.layoutType ?? defaults.layoutType,
+      rankDir: settings.rankDir ?? defaults.rankDir,
+      align: settings.align,
+      nodeSep: settings.nodeSep ?? defaults.nodeSep,
+      edgeSep: settings.edgeSep ?? defaults.edgeSep,
+      rankSep: settings.rankSep ?? defaults.rankSep,
+      marginx: settings.marginx ?? defaults.marginx,
+      marginy: settings.marginy ?? defaults.marginy,
+      acyclicer: settings.acyclicer,
+      ranker: settings.ranker ?? defaults.ranker,
+      spacingFactor: settings.spacingFactor ?? defaults.spacingFactor,
+      radialRingSep: settings.radialRingSep ?? defaults.radialRingSep,
+      balancedLevelSep: settings.balancedLevelSep ?? defaults.balancedLevelSep,
+      balancedNodeSep: settings.balancedNodeSep ?? defaults.balancedNodeSep,
+      indentSize: settings.indentSize ?? defaults.indentSize,
+      indentRowSep: settings.indentRowSep ?? defaults.indentRowSep,
+    };
+  }
+
+  /** Re-applies settings after the vault defaults or the file's overrides changed. */
+  public async reloadFileSettings(fileData?: ExcerptOutlineMindmapData): Promise<void> {
+    if (!this.file) return;
+
+    const previousZoom = this.layoutOptions.zoomFactor;
+    this.applyMindmapData(fileData ?? await this.frontmatterStorage.loadMindmapData(this.file));
+    if (typeof this.layoutOptions.zoomFactor === 'number' && this.layoutOptions.zoomFactor !== previousZoom) {
+      this.setZoomFactor(this.layoutOptions.zoomFactor, false);
+    }
+
+    this.sizeMap.clear();
+    this.measurementCache.clear();
+    await this.draw();
+  }
+
+  public async resetFileToVaultDefaults(): Promise<void> {
+    if (!this.file) return;
+
+    try {
+      await this.frontmatterStorage.clearMindmapData(this.file);
+    } catch (error) {
+      console.error('Failed to clear mindmap data from frontmatter:', error);
     }
+
+    // The metadata cache may still hold the old frontmatter, so apply the vault defaults directly
+    await this.reloadFileSettings({});
   }
 
   public async executeUndo(): Promise<void> {
     if (!this.file || !this.commandHistory.canUndo()) return;
-    
-    const newData = await this.commandHistory.undo(this.file);
-    if (newData !== null) {
-      this.data = newData;
-      await this.draw();
-      
-      // Force toolbar update
-      this.forceToolbarUpdate();
-    }
+    await this.applyHistoryChange((file) => this.commandHistory.undo(file));
   }
 
   public async executeRedo(): Promise<void> {
     if (!this.file || !this.commandHistory.canRedo()) return;
-    
-    const newData = await this.commandHistory.redo(this.file);
+    await this.applyHistoryChange((file) => this.commandHistory.redo(file));
+  }
+
+  /** Undoes or redoes as many steps as needed to get to the history entry at `index`. */
+  public async goToHistoryStep(index: number): Promise<void> {
+    if (!this.file) return;
+    await this.applyHistoryChange((file) => this.commandHistory.goTo(file, index));
+  }
+
+  private async applyHistoryChange(change: (file: TFile) => Promise<string | null>): Promise<void> {
+    if (!this.file) return;
+
+    let newData: string | null;
+    try {
+      newData = await change(this.file);
+    } catch (error) {
+      new Notice(error instanceof Error ? error.message : String(error));
+      return;
+    }
     if (newData !== null) {
       this.data = newData;
+      this.saveHistory();
       await this.draw();
       
       // Force toolbar update
@@ -1397,20 +1757,21 @@ export class MindmapView extends TextFileView {
   ): Promise<void> {
     if (!this.file) return;
     
-    const beforeState = this.data;
-    const newChildLine = childInsertPosition === 'first' ? parentNode.line + 1 : parentNode.endLine + 1;
-    const newDoc = await addChild(this.app, this.file, parentNode, childInsertPosition);
+    const newChildLine = childInsertPosition === 'first' ? parentNode.bodyEndLine + 1 : parentNode.endLine + 1;
+    const { before, after } = await addChild(this.app, this.file, parentNode, childInsertPosition);
+
+    if (after === before) return;
     
     const command: MindmapCommand = {
       type: 'add-child',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(parentNode),
       metadata: { childInsertPosition }
     };
     
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
     this.scheduleEditModeForNodeByLine(newChildLine);
   }
 
@@ -1420,20 +1781,21 @@ export class MindmapView extends TextFileView {
   ): Promise<void> {
     if (!this.file) return;
     
-    const beforeState = this.data;
     const newSiblingLine = siblingInsertPosition === 'before' ? node.line : node.endLine + 1;
-    const newDoc = await addSibling(this.app, this.file, node, siblingInsertPosition);
+    const { before, after } = await addSibling(this.app, this.file, node, siblingInsertPosition);
+
+    if (after === before) return;
     
     const command: MindmapCommand = {
       type: 'add-sibling',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(node),
       metadata: { siblingInsertPosition }
     };
     
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
     this.scheduleEditModeForNodeByLine(newSiblingLine);
   }
 
@@ -1449,15 +1811,16 @@ export class MindmapView extends TextFileView {
       desiredText = `[x] ${node.text}`;
     }
 
-    desiredText = this.normalizeNodeText(desiredText, false);
-    const beforeState = this.data;
-    const newDoc = await writeNode(this.app, this.file, node, desiredText);
+    desiredText = this.normalizeNodeText(desiredText);
+    const { before, after } = await writeNode(this.app, this.file, node, desiredText);
+
+    if (after === before) return;
 
     const command: MindmapCommand = {
       type: 'toggle-checkbox',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(node),
       metadata: {
         checkboxBefore: node.checkbox,
@@ -1465,21 +1828,22 @@ export class MindmapView extends TextFileView {
       }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
   public async convertNodeToTask(node: OutlineNode): Promise<void> {
     if (!this.file) return;
 
-    const desiredText = this.normalizeNodeText(`[ ] ${node.text}`, false);
-    const beforeState = this.data;
-    const newDoc = await writeNode(this.app, this.file, node, desiredText);
+    const desiredText = this.normalizeNodeText(`[ ] ${node.text}`);
+    const { before, after } = await writeNode(this.app, this.file, node, desiredText);
+
+    if (after === before) return;
 
     const command: MindmapCommand = {
       type: 'edit-node',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(node),
       metadata: {
         oldText: node.text.substring(0, 100),
@@ -1487,21 +1851,22 @@ export class MindmapView extends TextFileView {
       }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
   public async convertNodeToCheckedTask(node: OutlineNode): Promise<void> {
     if (!this.file) return;
 
-    const desiredText = this.normalizeNodeText(`[x] ${node.text}`, false);
-    const beforeState = this.data;
-    const newDoc = await writeNode(this.app, this.file, node, desiredText);
+    const desiredText = this.normalizeNodeText(`[x] ${node.text}`);
+    const { before, after } = await writeNode(this.app, this.file, node, desiredText);
+
+    if (after === before) return;
 
     const command: MindmapCommand = {
       type: 'edit-node',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(node),
       metadata: {
         oldText: node.text.substring(0, 100),
@@ -1509,63 +1874,77 @@ export class MindmapView extends TextFileView {
       }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
   public async convertNodesToTask(nodes: OutlineNode[]): Promise<void> {
     if (!this.file || nodes.length === 0) return;
 
-    const beforeState = this.data;
-    const newDoc = await writeMultipleNodes(this.app, this.file, nodes, (node) => this.normalizeNodeText(`[ ] ${node.text}`, false));
+    const { before, after } = await writeMultipleNodes(this.app, this.file, nodes, (node) => this.normalizeNodeText(`[ ] ${node.text}`));
+
+    if (after === before) return;
 
     const command: MindmapCommand = {
-      type: 'edit-node',
+      type: 'convert-to-tasks',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(nodes[0]),
       metadata: {
+        count: nodes.length,
+        checked: false,
         oldText: nodes.map((node) => node.text.substring(0, 50)).join(' | '),
-        newText: nodes.map((node) => `[ ] ${node.text}`.substring(0, 50)).join(' | '),
       }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
   public async convertNodesToCheckedTask(nodes: OutlineNode[]): Promise<void> {
     if (!this.file || nodes.length === 0) return;
 
-    const beforeState = this.data;
-    const newDoc = await writeMultipleNodes(this.app, this.file, nodes, (node) => this.normalizeNodeText(`[x] ${node.text}`, false));
+    const { before, after } = await writeMultipleNodes(this.app, this.file, nodes, (node) => this.normalizeNodeText(`[x] ${node.text}`));
+
+    if (after === before) return;
 
     const command: MindmapCommand = {
-      type: 'edit-node',
+      type: 'convert-to-tasks',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(nodes[0]),
       metadata: {
+        count: nodes.length,
+        checked: true,
         oldText: nodes.map((node) => node.text.substring(0, 50)).join(' | '),
-        newText: nodes.map((node) => `[x] ${node.text}`.substring(0, 50)).join(' | '),
       }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
-  public async executeEditNodeCommand(node: OutlineNode, newText: string): Promise<void> {
+  public async executeEditNodeCommand(editedNode: OutlineNode, newText: string): Promise<void> {
     if (!this.file) return;
+
+    // The document may have changed while the editor was open
+    await this.reloadDataIncremental();
+    const node = this.resolveNode(editedNode);
+    if (!node) {
+      new Notice('The node was removed while you were editing it.');
+      return;
+    }
     
     newText = this.normalizeNodeText(newText);
-    const beforeState = this.data;
-    const newDoc = await writeNode(this.app, this.file, node, newText);
+    const { text, body } = splitNodeContent(newText);
+    const { before, after } = await writeNode(this.app, this.file, node, text, body);
+
+    if (after === before) return;
     
     const command: MindmapCommand = {
       type: 'edit-node',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(node),
       metadata: { 
         oldText: node.text.substring(0, 100),
@@ -1573,25 +1952,26 @@ export class MindmapView extends TextFileView {
       }
     };
     
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
   public async executeDeleteNodeCommand(node: OutlineNode): Promise<void> {
     if (!this.file) return;
 
     const restoreSelection = this.getSelectionRestoreCandidate(new Set([node.line]));
-    const beforeState = this.data;
-    const newDoc = await deleteNode(this.app, this.file, node);
+    const { before, after } = await deleteNode(this.app, this.file, node);
+
+    if (after === before) return;
 
     const command: MindmapCommand = {
       type: 'delete-node',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(node)
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
     this.selectedNodeLines.clear();
     this.restoreSelectionAfterDeletion(restoreSelection);
   }
@@ -1600,18 +1980,19 @@ export class MindmapView extends TextFileView {
     if (!this.file || nodes.length === 0) return;
 
     const restoreSelection = this.getSelectionRestoreCandidate(new Set(nodes.map((node) => node.line)));
-    const beforeState = this.data;
-    const newDoc = await deleteMultipleNodes(this.app, this.file, nodes);
+    const { before, after } = await deleteMultipleNodes(this.app, this.file, nodes);
+
+    if (after === before) return;
 
     const command: MindmapCommand = {
       type: 'delete-node', // reusing the type for simplicity, or could add delete-multiple-nodes
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(nodes[0]) // just store info of first node
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
     this.selectedNodeLines.clear();
     this.restoreSelectionAfterDeletion(restoreSelection);
   }
@@ -1619,18 +2000,19 @@ export class MindmapView extends TextFileView {
     if (!this.file) return;
     
     const restoreSelection = this.getSelectionRestoreCandidate(new Set([node.line]));
-    const beforeState = this.data;
-    const newDoc = await deleteNodeKeepChildren(this.app, this.file, node);
+    const { before, after } = await deleteNodeKeepChildren(this.app, this.file, node);
+
+    if (after === before) return;
     
     const command: MindmapCommand = {
       type: 'delete-node-keep-children',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(node)
     };
     
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
     this.selectedNodeLines.clear();
     this.restoreSelectionAfterDeletion(restoreSelection);
   }
@@ -1644,8 +2026,7 @@ export class MindmapView extends TextFileView {
   ): Promise<void> {
     if (!this.file) return;
     
-    const beforeState = this.data;
-    const newDoc = await moveSubtree(
+    const { before, after } = await moveSubtree(
       this.app,
       this.file,
       sourceNode,
@@ -1655,21 +2036,116 @@ export class MindmapView extends TextFileView {
       siblingInsertPosition
     );
     
-    if (newDoc === beforeState) {
+    if (after === before) {
       return; // No change
     }
     
     const command: MindmapCommand = {
       type: 'move-subtree',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(sourceNode),
       targetInfo: CommandHistory.createNodeInfo(targetNode),
       metadata: { insertAsChild, childInsertPosition, siblingInsertPosition }
     };
     
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
+  }
+
+  public async executeIndentNodesCommand(nodes: OutlineNode[]): Promise<void> {
+    if (!this.file || nodes.length === 0) return;
+
+    const { before, after } = await indentNodes(this.app, this.file, nodes);
+
+    if (after === before) return;
+
+    const command: MindmapCommand = {
+      type: 'indent-nodes',
+      timestamp: Date.now(),
+      beforeState: before,
+      afterState: after,
+      nodeInfo: CommandHistory.createNodeInfo(nodes[0]),
+      metadata: { count: nodes.length }
+    };
+
+    await this.applyDocIncrementalWithCommand(after, command);
+  }
+
+  public async executeOutdentNodesCommand(nodes: OutlineNode[]): Promise<void> {
+    if (!this.file || nodes.length === 0) return;
+
+    const { before, after } = await outdentNodes(this.app, this.file, nodes);
+
+    if (after === before) return;
+
+    const command: MindmapCommand = {
+      type: 'outdent-nodes',
+      timestamp: Date.now(),
+      beforeState: before,
+      afterState: after,
+      nodeInfo: CommandHistory.createNodeInfo(nodes[0]),
+      metadata: { count: nodes.length }
+    };
+
+    await this.applyDocIncrementalWithCommand(after, command);
+  }
+
+  public async executeMoveNodesCommand(nodes: OutlineNode[], direction: 'up' | 'down'): Promise<void> {
+    if (!this.file || nodes.length === 0) return;
+
+    const { before, after } = await moveNodesAmongSiblings(this.app, this.file, nodes, direction);
+
+    if (after === before) return;
+
+    const command: MindmapCommand = {
+      type: 'reorder-nodes',
+      timestamp: Date.now(),
+      beforeState: before,
+      afterState: after,
+      nodeInfo: CommandHistory.createNodeInfo(nodes[0]),
+      metadata: { count: nodes.length, direction }
+    };
+
+    await this.applyDocIncrementalWithCommand(after, command);
+  }
+
+  public async executeSetListTypeCommand(node: OutlineNode, ordered: boolean): Promise<void> {
+    if (!this.file) return;
+
+    const { before, after } = await setSubtreeListType(this.app, this.file, node, ordered);
+
+    if (after === before) return;
+
+    const command: MindmapCommand = {
+      type: 'convert-list',
+      timestamp: Date.now(),
+      beforeState: before,
+      afterState: after,
+      nodeInfo: CommandHistory.createNodeInfo(node),
+      metadata: { ordered }
+    };
+
+    await this.applyDocIncrementalWithCommand(after, command);
+  }
+
+  public async executeSetNodesStyleCommand(nodes: OutlineNode[], style: NodeStyle): Promise<void> {
+    if (!this.file || nodes.length === 0) return;
+
+    const { before, after } = await setNodesStyle(this.app, this.file, nodes, style);
+
+    if (after === before) return;
+
+    const command: MindmapCommand = {
+      type: 'style-nodes',
+      timestamp: Date.now(),
+      beforeState: before,
+      afterState: after,
+      nodeInfo: CommandHistory.createNodeInfo(nodes[0]),
+      metadata: { count: nodes.length }
+    };
+
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
   public async executeAddChildTextCommand(
@@ -1682,19 +2158,20 @@ export class MindmapView extends TextFileView {
     text = this.normalizeNodeText(text);
     if (!text) return;
 
-    const beforeState = this.data;
-    const newDoc = await addChildText(this.app, this.file, parentNode, text, childInsertPosition);
+    const { before, after } = await addChildText(this.app, this.file, parentNode, text, childInsertPosition);
+
+    if (after === before) return;
     
     const command: MindmapCommand = {
       type: 'add-child-text',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(parentNode),
       metadata: { addedText: text.substring(0, 100), childInsertPosition }
     };
     
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
   public async executeAddSiblingTextCommand(
@@ -1707,65 +2184,62 @@ export class MindmapView extends TextFileView {
     text = this.normalizeNodeText(text);
     if (!text) return;
 
-    const beforeState = this.data;
-    const newDoc = await addSiblingText(this.app, this.file, targetNode, text, siblingInsertPosition);
+    const { before, after } = await addSiblingText(this.app, this.file, targetNode, text, siblingInsertPosition);
 
-    if (newDoc === beforeState) return;
+    if (after === before) return;
 
     const command: MindmapCommand = {
       type: 'add-sibling',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(targetNode),
       metadata: { addedText: text.substring(0, 100), dropIntent: 'sibling', siblingInsertPosition }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
   public async executePasteNodesCommand(parentNode: OutlineNode, text: string): Promise<void> {
     if (!this.file) return;
 
-    const beforeState = this.data;
-    const newDoc = await addMarkdownAsChildren(this.app, this.file, parentNode, text);
+    const { before, after } = await addMarkdownAsChildren(this.app, this.file, parentNode, text);
 
-    if (newDoc === beforeState) return;
+    if (after === before) return;
 
     const command: MindmapCommand = {
-      type: 'add-child-text',
+      type: 'paste-nodes',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(parentNode),
-      metadata: { pastedText: text.substring(0, 100) }
+      metadata: { pastedText: text.substring(0, 100), count: Math.max(1, flattenOutline(parseOutline(text)).length) }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
   }
 
   public async executeCutPasteNodesCommand(sourceNodes: OutlineNode[], parentNode: OutlineNode, text: string): Promise<void> {
     if (!this.file || sourceNodes.length === 0) return;
 
-    const beforeState = this.data;
-    const newDoc = await cutPasteMarkdownAsChildren(this.app, this.file, sourceNodes, parentNode, text);
+    const { before, after } = await cutPasteMarkdownAsChildren(this.app, this.file, sourceNodes, parentNode, text);
 
-    if (newDoc === beforeState) {
+    if (after === before) {
       new Notice('Cannot paste cut nodes into themselves.');
       return;
     }
 
     const command: MindmapCommand = {
-      type: 'move-subtree',
+      type: 'cut-paste-nodes',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(sourceNodes[0]),
       targetInfo: CommandHistory.createNodeInfo(parentNode),
-      metadata: { count: sourceNodes.length, cutPaste: true }
+      metadata: { count: sourceNodes.length }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
     this.pendingCutNodeLines.clear();
     this.selectedNodeLines.clear();
     this.updateSelectionStyling();
@@ -1774,21 +2248,78 @@ export class MindmapView extends TextFileView {
   public async executeDuplicateNodeCommand(node: OutlineNode): Promise<void> {
     if (!this.file) return;
 
-    const beforeState = this.data;
-    const newDoc = await duplicateSubtree(this.app, this.file, node);
+    const { before, after } = await duplicateSubtree(this.app, this.file, node);
 
-    if (newDoc === beforeState) return;
+    if (after === before) return;
 
     const command: MindmapCommand = {
       type: 'add-sibling',
       timestamp: Date.now(),
-      beforeState,
-      afterState: newDoc,
+      beforeState: before,
+      afterState: after,
       nodeInfo: CommandHistory.createNodeInfo(node),
       metadata: { duplicated: true }
     };
 
-    await this.applyDocIncrementalWithCommand(newDoc, command);
+    await this.applyDocIncrementalWithCommand(after, command);
+  }
+
+  public async setNodesCollapsed(nodes: OutlineNode[], collapsed: boolean): Promise<void> {
+    if (!this.file) return;
+
+    const foldable = nodes.filter((node) => node.children.length > 0 && isCollapsed(node.markers) !== collapsed);
+    if (foldable.length === 0) return;
+
+    const { before, after } = await setNodesCollapsed(this.app, this.file, foldable, collapsed);
+
+    if (after === before) return;
+
+    const command: MindmapCommand = {
+      type: 'toggle-collapse',
+      timestamp: Date.now(),
+      beforeState: before,
+      afterState: after,
+      nodeInfo: CommandHistory.createNodeInfo(foldable[0]),
+      metadata: { collapsed, count: foldable.length }
+    };
+
+    await this.applyDocIncrementalWithCommand(after, command);
+    if (collapsed) this.moveSelectionOutOfFoldedNodes(foldable);
+  }
+
+  public async collapseToLevel(level: number): Promise<void> {
+    if (!this.file) return;
+
+    const rootNodes = parseOutline(this.data);
+    if (rootNodes.length === 0) return;
+
+    const { before, after } = await collapseToLevel(this.app, this.file, level);
+
+    if (after === before) return;
+
+    const command: MindmapCommand = {
+      type: 'toggle-collapse',
+      timestamp: Date.now(),
+      beforeState: before,
+      afterState: after,
+      nodeInfo: CommandHistory.createNodeInfo(rootNodes[0]),
+      metadata: { level }
+    };
+
+    await this.applyDocIncrementalWithCommand(after, command);
+    const folded = this.getFlatNodes().filter((node) => isCollapsed(node.markers));
+    this.moveSelectionOutOfFoldedNodes(folded);
+  }
+
+  /** Selected nodes that became hidden hand their selection to the folded ancestor. */
+  private moveSelectionOutOfFoldedNodes(foldedNodes: OutlineNode[]): void {
+    const nextSelection = new Set<number>();
+    this.selectedNodeLines.forEach((line) => {
+      const ancestor = foldedNodes.find((node) => line > node.line && line <= node.endLine);
+      nextSelection.add(ancestor ? ancestor.line : line);
+    });
+    this.selectedNodeLines = nextSelection;
+    this.updateSelectionStyling();
   }
 
   public getNodeOptions(): NodeOptions {
@@ -1832,7 +2363,7 @@ export class MindmapView extends TextFileView {
   public async resetLayoutOptions(): Promise<void> {
     const zoomFactor = this.layoutOptions.zoomFactor;
     this.layoutOptions = {
-      ...createDefaultLayoutOptions(),
+      ...this.getVaultLayoutOptions(),
       zoomFactor,
     };
 
@@ -1996,6 +2527,156 @@ export class MindmapView extends TextFileView {
     });
   }
 
+  /* ── Search ─────────────────────────────── */
+
+  public openSearch(): void {
+    this.searchBar?.open();
+  }
+
+  public async closeSearch(): Promise<void> {
+    this.searchBar?.close();
+    const wasFiltering = this.isFilteringSearch();
+    const hadRevealed = this.searchRevealedLines.size > 0;
+    this.searchQuery = null;
+    this.searchResults.clear();
+    this.searchRevealedLines.clear();
+
+    if (wasFiltering || hadRevealed) {
+      await this.draw();
+    } else {
+      this.updateSearchStyling();
+    }
+    this.wrapper?.focus();
+  }
+
+  public async setSearchQuery(input: string): Promise<void> {
+    try {
+      this.searchQuery = parseSearchQuery(input);
+    } catch (error) {
+      this.searchQuery = null;
+      this.searchResults.clear();
+      this.updateSearchStyling();
+      this.searchBar?.setResult(0, 0, error instanceof Error ? error.message : 'Invalid search');
+      return;
+    }
+
+    if (this.searchHidesNonMatching) {
+      await this.draw();
+      return;
+    }
+
+    this.updateSearchResults();
+    this.updateSearchStyling();
+    this.updateSearchBarCount();
+  }
+
+  public async setSearchHidesNonMatching(hide: boolean): Promise<void> {
+    this.searchHidesNonMatching = hide;
+    if (this.searchQuery) {
+      await this.draw();
+    }
+  }
+
+  /** Whether non-matching branches are left out of the drawn graph instead of dimmed. */
+  public isFilteringSearch(): boolean {
+    return this.searchQuery !== null && this.searchHidesNonMatching;
+  }
+
+  /** Whether the folded node is drawn open for the search; true only until the search closes. */
+  public isSearchRevealed(line: number): boolean {
+    return this.searchRevealedLines.has(line);
+  }
+
+  /** Null while no search is active. */
+  public getSearchResult(line: number): NodeSearchResult | null {
+    if (!this.searchQuery) return null;
+    return this.searchResults.get(line) ?? 'none';
+  }
+
+  private updateSearchResults(): void {
+    if (!this.searchQuery) {
+      this.searchResults.clear();
+      return;
+    }
+
+    const outline = parseOutline(this.data);
+    const focused = this.getFocusedNode(outline);
+    this.searchResults = searchOutline(this.searchQuery, focused ? [focused] : outline);
+  }
+
+  private updateSearchStyling(): void {
+    if (!this.wrapper) return;
+
+    this.wrapper.querySelectorAll('[data-overlay]').forEach((overlay) => {
+      const result = this.getSearchResult(Number((overlay as HTMLElement).dataset.nodeLine));
+      overlay.classList.toggle('is-search-match', result === 'match');
+      overlay.classList.toggle('is-search-dimmed', result === 'none');
+    });
+  }
+
+  /** All matches in document order, including those inside folded branches. */
+  private getSearchMatches(): number[] {
+    if (!this.searchQuery) return [];
+
+    return Array.from(this.searchResults.entries())
+      .filter(([, result]) => result === 'match')
+      .map(([line]) => line)
+      .sort((a, b) => a - b);
+  }
+
+  private updateSearchBarCount(): void {
+    if (!this.searchBar) return;
+
+    const matches = this.getSearchMatches();
+    const selected = Array.from(this.selectedNodeLines).pop();
+    const current = selected !== undefined ? matches.indexOf(selected) + 1 : 0;
+    this.searchBar.setResult(current, matches.length);
+  }
+
+  /**
+   * Selects the next or previous match after the current selection and scrolls to it.
+   * A match inside a folded branch is shown by drawing its folded ancestors open until the
+   * search closes; the file and the undo history are not changed.
+   */
+  public async stepSearchMatch(delta: 1 | -1): Promise<void> {
+    const matches = this.getSearchMatches();
+    if (matches.length === 0) return;
+
+    const selected = Array.from(this.selectedNodeLines).pop();
+    let target: number | undefined;
+    if (selected === undefined) {
+      target = delta === 1 ? matches[0] : matches[matches.length - 1];
+    } else if (delta === 1) {
+      target = matches.find((line) => line > selected) ?? matches[0];
+    } else {
+      target = [...matches].reverse().find((line) => line < selected) ?? matches[matches.length - 1];
+    }
+
+    // A filtering search already draws matches inside folded branches
+    if (!this.isFilteringSearch()) {
+      const line = target;
+      const hiddenBy = this.getFlatNodes().filter((node) =>
+        node.line < line && node.endLine >= line && isCollapsed(node.markers) && !this.searchRevealedLines.has(node.line)
+      );
+      if (hiddenBy.length > 0) {
+        hiddenBy.forEach((node) => this.searchRevealedLines.add(node.line));
+        await this.draw();
+      }
+    }
+
+    this.selectNode(target);
+    this.centerSelectedNodeInView();
+    this.updateSearchBarCount();
+  }
+
+  /** Like getFlatNodes, but limited to the focused subtree while focus mode is on. */
+  private getScopedFlatNodes(): OutlineNode[] {
+    const flat = this.getFlatNodes();
+    const focused = this.getFocusedNode();
+    if (!focused) return flat;
+    return flat.filter((node) => node.line >= focused.line && node.line <= focused.endLine);
+  }
+
   private getFlatNodes(): OutlineNode[] {
     const flat: OutlineNode[] = [];
     (function walk(arr: OutlineNode[]) {
@@ -2004,6 +2685,7 @@ export class MindmapView extends TextFileView {
         walk(node.children);
       });
     })(parseOutline(this.data));
+    this.nodeIdentity.annotate(flat);
     return flat;
   }
 
@@ -2013,7 +2695,7 @@ export class MindmapView extends TextFileView {
       return;
     }
 
-    const flat = this.getFlatNodes();
+    const flat = this.getScopedFlatNodes();
     if (flat.length === 0) return;
 
     const selectedArray = Array.from(this.selectedNodeLines);
@@ -2038,7 +2720,7 @@ export class MindmapView extends TextFileView {
     }
 
     if (direction === 'down') {
-      if (current.children[0]) this.selectNode(current.children[0].line);
+      if (current.children[0] && !isCollapsed(current.markers)) this.selectNode(current.children[0].line);
       return;
     }
 
@@ -2073,7 +2755,7 @@ export class MindmapView extends TextFileView {
       return;
     }
 
-    const currentCyNode = this.cy.getElementById(`n${lastSelectedLine}`);
+    const currentCyNode = this.cy.getElementById(this.getCyNodeId(lastSelectedLine));
     if (!currentCyNode || currentCyNode.empty()) {
       const firstLine = nodes[0].data('node')?.line;
       if (firstLine !== undefined) this.selectNode(firstLine);
@@ -2121,7 +2803,7 @@ export class MindmapView extends TextFileView {
 
     const selectedArray = Array.from(this.selectedNodeLines);
     const nodeLine = selectedArray[selectedArray.length - 1];
-    const cyNode = this.cy.getElementById(`n${nodeLine}`);
+    const cyNode = this.cy.getElementById(this.getCyNodeId(nodeLine));
     if (!cyNode || cyNode.empty()) return;
 
     requestAnimationFrame(() => {
@@ -2157,6 +2839,7 @@ export class MindmapView extends TextFileView {
   }
 
   private scheduleEditModeForNodeByLine(nodeLine: number): void {
+    const nodeId = this.nodeIdentity.getId(nodeLine);
     let started = false;
     const startAfterOverlayUpdate = () => {
       if (started) return;
@@ -2165,7 +2848,10 @@ export class MindmapView extends TextFileView {
       requestAnimationFrame(() => {
         requestAnimationFrame(() => {
           requestAnimationFrame(() => {
-            void this.enterEditModeForNodeByLine(nodeLine, true);
+            const currentLine = nodeId ? this.nodeIdentity.getLine(nodeId) : nodeLine;
+            if (currentLine !== undefined) {
+              void this.enterEditModeForNodeByLine(currentLine, true);
+            }
           });
         });
       });
@@ -1,4 +1,4 @@
-import type { ChildInsertPosition, SiblingInsertPosition } from '../domain/mindmap-file';
+import type { ChildInsertPosition, SiblingInsertPosition } from '../domain/outline-transforms';
 
 export type DropIntent =
   | { kind: 'sibling'; siblingInsertPosition: SiblingInsertPosition }
@@ -1,5 +1,7 @@
 import { setIcon, Notice } from 'obsidian';
-import { parseOutline, OutlineNode } from '../utils/outline';
+import { parseOutline, OutlineNode, countDescendants } from '../utils/outline';
+import { isCollapsed } from '../domain/node-markers';
+import { getNodeColorValue, getNodeStyle } from '../domain/node-style';
 import { MindmapView } from './mindmap-view';
 import { DeleteNodeModal, DeleteOption } from "../ui/modals/delete-node-modal";
 import { renderNodeMarkdown, startNodeEditing } from '../editor/node-editing';
@@ -100,6 +102,7 @@ function performOverlayUpdate(view: MindmapView): void {
       walk(n.children);
     });
   })(currentOutline);
+  view.nodeIdentity.annotate(flatCurrent);
 
   // Create a map of valid line numbers from current document
   const validLines = new Set(flatCurrent.map(n => n.line));
@@ -135,7 +138,7 @@ function performOverlayUpdate(view: MindmapView): void {
     n.data('node', currentNode);
     const nodeToUse = currentNode;
     
-    const nodeId = `n${nodeToUse.line}`;
+    const nodeId = view.getCyNodeId(nodeToUse.line);
     
     const p = n.renderedPosition();
     const dims = view.sizeMap.get(nodeToUse.line);
@@ -170,6 +173,17 @@ function performOverlayUpdate(view: MindmapView): void {
     box.style.setProperty('--mindmap-font-size', '16px');
     box.style.setProperty('--mindmap-box-shadow', '0 1px 3px rgba(0,0,0,.08)');
 
+    const nodeStyle = getNodeStyle(nodeToUse.markers);
+    if (nodeStyle.color) {
+      const color = getNodeColorValue(nodeStyle.color);
+      box.style.setProperty('--mindmap-border', color);
+      box.style.setProperty('--mindmap-bg', `color-mix(in srgb, ${color} 14%, ${bg})`);
+    }
+    if (nodeStyle.border) {
+      box.dataset.border = nodeStyle.border;
+    }
+    box.classList.toggle('has-frame', nodeStyle.frame === true);
+
     const hasCheckbox = nodeToUse.checkbox !== 'none';
     const isCheckboxHoverable = !hasCheckbox && view.generalSettings.showCheckboxesOnHover;
 
@@ -202,10 +216,46 @@ function performOverlayUpdate(view: MindmapView): void {
     });
     box.appendChild(checkboxToggle);
 
+    if (nodeToUse.children.length > 0) {
+      const collapsed = isCollapsed(nodeToUse.markers);
+      const foldLabel = collapsed
+        ? `Expand (${countDescendants(nodeToUse)} hidden)`
+        : 'Collapse';
+      box.classList.toggle('is-collapsed', collapsed);
+
+      const foldToggle = document.createElement('button');
+      foldToggle.type = 'button';
+      foldToggle.className = 'mindmap-fold-toggle';
+      foldToggle.setAttribute('aria-label', foldLabel);
+      foldToggle.setAttribute('title', foldLabel);
+      setIcon(foldToggle, collapsed ? 'chevron-right' : 'chevron-down');
+      if (collapsed) {
+        foldToggle.createSpan({ cls: 'mindmap-fold-count', text: String(countDescendants(nodeToUse)) });
+      }
+      foldToggle.addEventListener('pointerdown', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+      });
+      foldToggle.addEventListener('pointerup', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        void view.setNodesCollapsed([nodeToUse], !collapsed);
+      });
+      foldToggle.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+      });
+      box.appendChild(foldToggle);
+    }
+
     if (view.selectedNodeLines.has(nodeToUse.line)) {
       box.classList.add('selected');
     }
 
+    const searchResult = view.getSearchResult(nodeToUse.line);
+    box.classList.toggle('is-search-match', searchResult === 'match');
+    box.classList.toggle('is-search-dimmed', searchResult === 'none');
+
     if (view.pendingEditNodeLine === nodeToUse.line) {
       pendingEdit = { box, node: nodeToUse };
     }
@@ -0,0 +1,224 @@
+import { Hotkey, Platform } from 'obsidian';
+import type { MindmapView } from './mindmap-view';
+
+export interface MindmapViewAction {
+  id: string;
+  name: string;
+  /** Used inside the mindmap until the command gets its own hotkeys in Obsidian's settings. */
+  defaultHotkeys: Hotkey[];
+  isAvailable: (view: MindmapView) => boolean;
+  run: (view: MindmapView) => void;
+}
+
+const hasSelection = (view: MindmapView) => view.selectedNodeLines.size > 0;
+const hasSingleSelection = (view: MindmapView) => view.getSingleSelectedNode() !== null;
+
+export const MINDMAP_VIEW_ACTIONS: MindmapViewAction[] = [
+  {
+    id: 'add-child',
+    name: 'Add child node',
+    defaultHotkeys: [{ modifiers: ['Mod'], key: 'ArrowDown' }],
+    isAvailable: hasSingleSelection,
+    run: (view) => void view.executeAddChildCommand(view.getSingleSelectedNode()!, 'last'),
+  },
+  {
+    id: 'add-sibling-before',
+    name: 'Add sibling node before',
+    defaultHotkeys: [{ modifiers: ['Mod'], key: 'ArrowLeft' }],
+    isAvailable: hasSingleSelection,
+    run: (view) => void view.executeAddSiblingCommand(view.getSingleSelectedNode()!, 'before'),
+  },
+  {
+    id: 'add-sibling-after',
+    name: 'Add sibling node after',
+    defaultHotkeys: [{ modifiers: ['Mod'], key: 'ArrowRight' }],
+    isAvailable: hasSingleSelection,
+    run: (view) => void view.executeAddSiblingCommand(view.getSingleSelectedNode()!, 'after'),
+  },
+  {
+    id: 'edit-node',
+    name: 'Edit selected node',
+    defaultHotkeys: [{ modifiers: [], key: 'Enter' }],
+    isAvailable: hasSingleSelection,
+    run: (view) => void view.enterEditModeForNodeByLine(view.getSingleSelectedNode()!.line),
+  },
+  {
+    id: 'delete-nodes',
+    name: 'Delete selected nodes',
+    defaultHotkeys: [
+      { modifiers: [], key: 'Delete' },
+      { modifiers: [], key: 'Backspace' },
+    ],
+    isAvailable: hasSelection,
+    run: (view) => void view.deleteNodesWithConfirmation(view.getSelectedNodes()),
+  },
+  {
+    id: 'copy-nodes',
+    name: 'Copy selected nodes',
+    defaultHotkeys: [{ modifiers: ['Mod'], key: 'c' }],
+    isAvailable: hasSelection,
+    run: (view) => void view.copyNodesToClipboard(view.getSelectedNodes()),
+  },
+  {
+    id: 'cut-nodes',
+    name: 'Cut selected nodes',
+    defaultHotkeys: [{ modifiers: ['Mod'], key: 'x' }],
+    isAvailable: hasSelection,
+    run: (view) => void view.cutNodesToClipboard(view.getSelectedNodes()),
+  },
+  {
+    id: 'paste-nodes',
+    name: 'Paste as children of selected node',
+    defaultHotkeys: [{ modifiers: ['Mod'], key: 'v' }],
+    isAvailable: hasSingleSelection,
+    run: (view) => void view.pasteClipboardAsChildren(view.getSingleSelectedNode()!),
+  },
+  {
+    id: 'copy-as-mermaid',
+    name: 'Copy as Mermaid mindmap',
+    defaultHotkeys: [],
+    isAvailable: () => true,
+    run: (view) => void view.copyNodesAs('mermaid', view.getSelectedNodes()),
+  },
+  {
+    id: 'copy-as-markmap',
+    name: 'Copy as Markmap',
+    defaultHotkeys: [],
+    isAvailable: () => true,
+    run: (view) => void view.copyNodesAs('markmap', view.getSelectedNodes()),
+  },
+  {
+    id: 'duplicate-node',
+    name: 'Duplicate selected node',
+    defaultHotkeys: [],
+    isAvailable: hasSingleSelection,
+    run: (view) => void view.executeDuplicateNodeCommand(view.getSingleSelectedNode()!),
+  },
+  {
+    id: 'toggle-task',
+    name: 'Toggle task on selected nodes',
+    defaultHotkeys: [{ modifiers: ['Mod'], key: 'Enter' }],
+    isAvailable: hasSelection,
+    run: (view) => void view.toggleSelectedTasks(),
+  },
+  {
+    id: 'collapse-nodes',
+    name: 'Collapse selected nodes',
+    defaultHotkeys: [{ modifiers: ['Mod', 'Shift'], key: 'ArrowUp' }],
+    isAvailable: hasSelection,
+    run: (view) => void view.setNodesCollapsed(view.getSelectedNodes(), true),
+  },
+  {
+    id: 'expand-nodes',
+    name: 'Expand selected nodes',
+    defaultHotkeys: [{ modifiers: ['Mod', 'Shift'], key: 'ArrowDown' }],
+    isAvailable: hasSelection,
+    run: (view) => void view.setNodesCollapsed(view.getSelectedNodes(), false),
+  },
+  {
+    id: 'indent-nodes',
+    name: 'Indent selected nodes',
+    defaultHotkeys: [{ modifiers: [], key: 'Tab' }],
+    isAvailable: hasSelection,
+    run: (view) => void view.executeIndentNodesCommand(view.getSelectedNodes()),
+  },
+  {
+    id: 'outdent-nodes',
+    name: 'Outdent selected nodes',
+    defaultHotkeys: [{ modifiers: ['Shift'], key: 'Tab' }],
+    isAvailable: hasSelection,
+    run: (view) => void view.executeOutdentNodesCommand(view.getSelectedNodes()),
+  },
+  {
+    id: 'move-nodes-up',
+    name: 'Move selected nodes up',
+    defaultHotkeys: [{ modifiers: ['Alt'], key: 'ArrowUp' }],
+    isAvailable: hasSelection,
+    run: (view) => void view.executeMoveNodesCommand(view.getSelectedNodes(), 'up'),
+  },
+  {
+    id: 'move-nodes-down',
+    name: 'Move selected nodes down',
+    defaultHotkeys: [{ modifiers: ['Alt'], key: 'ArrowDown' }],
+    isAvailable: hasSelection,
+    run: (view) => void view.executeMoveNodesCommand(view.getSelectedNodes(), 'down'),
+  },
+  {
+    id: 'undo',
+    name: 'Undo',
+    defaultHotkeys: [{ modifiers: ['Mod'], key: 'z' }],
+    isAvailable: (view) => view.commandHistory.canUndo(),
+    run: (view) => void view.executeUndo(),
+  },
+  {
+    id: 'redo',
+    name: 'Redo',
+    defaultHotkeys: [
+      { modifiers: ['Mod', 'Shift'], key: 'z' },
+      { modifiers: ['Mod'], key: 'y' },
+    ],
+    isAvailable: (view) => view.commandHistory.canRedo(),
+    run: (view) => void view.executeRedo(),
+  },
+  {
+    id: 'fit-to-view',
+    name: 'Fit mindmap to view',
+    defaultHotkeys: [],
+    isAvailable: (view) => !!view.cy,
+    run: (view) => view.fitToView(),
+  },
+  {
+    id: 'search',
+    name: 'Search nodes',
+    defaultHotkeys: [{ modifiers: ['Mod'], key: 'f' }],
+    isAvailable: (view) => !!view.cy,
+    run: (view) => view.openSearch(),
+  },
+  {
+    id: 'focus-node',
+    name: 'Focus on selected node',
+    defaultHotkeys: [],
+    isAvailable: hasSingleSelection,
+    run: (view) => void view.focusNode(view.getSingleSelectedNode()!),
+  },
+  {
+    id: 'exit-focus',
+    name: 'Show whole map',
+    defaultHotkeys: [],
+    isAvailable: (view) => view.isFocused(),
+    run: (view) => void view.clearFocus(),
+  },
+  {
+    id: 'reset-file-to-vault-defaults',
+    name: 'Reset file to vault defaults',
+    defaultHotkeys: [],
+    isAvailable: (view) => !!view.file,
+    run: (view) => void view.resetFileToVaultDefaults(),
+  },
+  ...(['up', 'down', 'left', 'right'] as const).map((direction): MindmapViewAction => ({
+    id: `select-${direction}`,
+    name: `Select node ${direction === 'up' ? 'above' : direction === 'down' ? 'below' : `to the ${direction}`}`,
+    defaultHotkeys: [{ modifiers: [], key: `Arrow${direction[0].toUpperCase()}${direction.slice(1)}` }],
+    isAvailable: (view) => !!view.cy,
+    run: (view) => view.moveSelection(direction),
+  })),
+];
+
+export function matchesHotkey(event: KeyboardEvent, hotkey: Hotkey): boolean {
+  const modifiers = new Set(hotkey.modifiers);
+  const ctrl = modifiers.has('Ctrl') || (!Platform.isMacOS && modifiers.has('Mod'));
+  const meta = modifiers.has('Meta') || (Platform.isMacOS && modifiers.has('Mod'));
+
+  if (
+    event.ctrlKey !== ctrl ||
+    event.metaKey !== meta ||
+    event.shiftKey !== modifiers.has('Shift') ||
+    event.altKey !== modifiers.has('Alt')
+  ) {
+    return false;
+  }
+
+  const key = hotkey.key.toLowerCase();
+  // Letters are compared by physical key too, so shortcuts survive non-Latin layouts
+  return event.key.toLowerCase() === key || (key.length === 1 && event.code === `Key${key.toUpperCase()}`);
+}
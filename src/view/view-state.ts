@@ -1,5 +1,9 @@
 export interface MindmapViewState {
   file?: string;
+  /** The hoisted node in focus mode. */
+  focus?: SelectionSnapshot;
+  /** A node to select and center once the map is drawn; not saved with the layout. */
+  select?: SelectionSnapshot;
 }
 
 export interface SelectionSnapshot {
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flattenOutline, parseOutline } from '../src/utils/outline';
+import { canvasToMarkdown, CanvasLayoutBox, layoutToCanvas } from '../src/formats/canvas';
+
+const outline = [
+  '- Plan %%eome:icon=🚀%%',
+  '\t- [x] Draft %%eome:color=green%%',
+  '\t- [ ] Ship %%eome:color=blue%%',
+  '\t  Before Friday',
+].join('\n');
+
+// A top-down tree: the root above its two children
+function layout(markdown: string): CanvasLayoutBox[] {
+  return flattenOutline(parseOutline(markdown)).map((node, index) => ({
+    node,
+    x: index === 0 ? 320 : index * 320 - 160,
+    y: index === 0 ? 25 : 200,
+    w: 300,
+    h: 50,
+  }));
+}
+
+describe('layoutToCanvas', () => {
+  it('writes text cards at the layout positions', () => {
+    const { nodes } = layoutToCanvas(layout(outline));
+
+    assert.deepEqual(nodes.map(({ text, x, y, width, height, color }) => ({ text, x, y, width, height, color })), [
+      { text: 'Plan %%eome:icon=🚀%%', x: 170, y: 0, width: 300, height: 50, color: undefined },
+      { text: '- [x] Draft', x: 10, y: 175, width: 300, height: 50, color: '4' },
+      { text: '- [ ] Ship\n\nBefore Friday', x: 330, y: 175, width: 300, height: 50, color: '#086ddd' },
+    ]);
+  });
+
+  it('connects parents to their children', () => {
+    const { nodes, edges } = layoutToCanvas(layout(outline));
+
+    assert.deepEqual(edges.map(({ fromNode, fromSide, toNode, toSide }) => ({ fromNode, fromSide, toNode, toSide })), [
+      { fromNode: nodes[0].id, fromSide: 'bottom', toNode: nodes[1].id, toSide: 'top' },
+      { fromNode: nodes[0].id, fromSide: 'bottom', toNode: nodes[2].id, toSide: 'top' },
+    ]);
+  });
+});
+
+describe('canvasToMarkdown', () => {
+  it('round-trips an outline', () => {
+    const canvas = JSON.stringify(layoutToCanvas(layout(outline)));
+
+    assert.equal(canvasToMarkdown(canvas), outline);
+  });
+
+  it('orders siblings along the axis they are spread over', () => {
+    const card = (id: string, text: string, x: number, y: number) => ({ id, type: 'text', text, x, y, width: 100, height: 40 });
+    const canvas = JSON.stringify({
+      nodes: [card('r', 'Root', 0, 0), card('b', 'Below', 200, 100), card('a', 'Above', 200, -100)],
+      edges: [{ id: 'e1', fromNode: 'r', toNode: 'b' }, { id: 'e2', fromNode: 'r', toNode: 'a' }],
+    });
+
+    assert.equal(canvasToMarkdown(canvas), '- Root\n\t- Above\n\t- Below');
+  });
+
+  it('turns file and link cards into links and skips groups', () => {
+    const canvas = JSON.stringify({
+      nodes: [
+        { id: 'g', type: 'group', x: -50, y: -50, width: 500, height: 500 },
+        { id: 'f', type: 'file', file: 'Notes/Plan.md', x: 0, y: 0, width: 100, height: 40 },
+        { id: 'l', type: 'link', url: 'https://obsidian.md', x: 0, y: 100, width: 100, height: 40 },
+      ],
+      edges: [],
+    });
+
+    assert.equal(canvasToMarkdown(canvas), '- [[Notes/Plan.md]]\n- https://obsidian.md');
+  });
+
+  it('rejects cards with more than one parent', () => {
+    const card = (id: string, text: string) => ({ id, type: 'text', text, x: 0, y: 0, width: 100, height: 40 });
+    const canvas = JSON.stringify({
+      nodes: [card('a', 'A'), card('b', 'B'), card('c', 'Shared')],
+      edges: [{ id: 'e1', fromNode: 'a', toNode: 'c' }, { id: 'e2', fromNode: 'b', toNode: 'c' }],
+    });
+
+    assert.throws(() => canvasToMarkdown(canvas), /"Shared" has more than one parent/);
+  });
+
+  it('rejects loops', () => {
+    const card = (id: string) => ({ id, type: 'text', text: id, x: 0, y: 0, width: 100, height: 40 });
+    const canvas = JSON.stringify({
+      nodes: [card('a'), card('b')],
+      edges: [{ id: 'e1', fromNode: 'a', toNode: 'b' }, { id: 'e2', fromNode: 'b', toNode: 'a' }],
+    });
+
+    assert.throws(() => canvasToMarkdown(canvas), /connected in a loop/);
+  });
+});
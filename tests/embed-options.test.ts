@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseOutline } from '../src/utils/outline';
+import { getEmbedNodes, parseEmbedOptions } from '../src/embeds/embed-options';
+
+describe('parseEmbedOptions', () => {
+  it('accepts a bare filename', () => {
+    assert.deepEqual(parseEmbedOptions('\n"mindmap.md"\n'), {
+      options: { file: 'mindmap.md', hideChecked: false, panZoom: false },
+      errors: [],
+    });
+  });
+
+  it('reads all options', () => {
+    const source = [
+      'mindmap.md',
+      '# only the plan',
+      'root: ^plan',
+      'depth: 2',
+      'height: 400px',
+      'layout: radial',
+      'rankDir: LR',
+      'nodeWidth: 240',
+      'hideChecked: true',
+      'panZoom: true',
+    ].join('\n');
+
+    assert.deepEqual(parseEmbedOptions(source), {
+      options: {
+        file: 'mindmap.md',
+        root: '^plan',
+        depth: 2,
+        height: 400,
+        layoutType: 'radial',
+        rankDir: 'LR',
+        nodeWidth: 240,
+        hideChecked: true,
+        panZoom: true,
+      },
+      errors: [],
+    });
+  });
+
+  it('reports unknown keys and invalid values', () => {
+    const { errors } = parseEmbedOptions(['file: mindmap.md', 'zoom: 2', 'depth: 0', 'layout: grid'].join('\n'));
+    assert.deepEqual(errors, [
+      'unknown option "zoom"; use file, root, depth, height, layout, rankDir, nodeWidth, hideChecked, panZoom',
+      'depth must be at least 1',
+      'layout must be one of tree, radial, balanced, indented',
+    ]);
+  });
+
+  it('requires exactly one filename', () => {
+    assert.deepEqual(parseEmbedOptions('depth: 2').errors, ['put exactly one Markdown filename in the code block']);
+    assert.deepEqual(parseEmbedOptions('a.md\nb.md').errors, ['put exactly one Markdown filename in the code block']);
+  });
+});
+
+describe('getEmbedNodes', () => {
+  const roots = parseOutline([
+    '- Project',
+    '\t- Plan ^plan',
+    '\t\t- [x] Done',
+    '\t\t\t- Detail',
+    '\t\t- [ ] Open',
+    '\t\t\t- Next',
+    '\t- Notes %%eome:collapsed%%',
+    '\t\t- Hidden',
+  ].join('\n'));
+  const texts = (options: string) => {
+    const nodes = getEmbedNodes(roots, parseEmbedOptions(`mindmap.md\n${options}`).options);
+    return nodes && nodes.map((node) => node.text);
+  };
+
+  it('shows the visible outline by default', () => {
+    assert.deepEqual(texts(''), ['Project', 'Plan ^plan', 'Done', 'Detail', 'Open', 'Next', 'Notes']);
+  });
+
+  it('starts at a root found by block id or text', () => {
+    assert.deepEqual(texts('root: ^plan\ndepth: 2'), ['Plan ^plan', 'Done', 'Open']);
+    assert.deepEqual(texts('root: plan\ndepth: 1'), ['Plan ^plan']);
+    assert.deepEqual(texts('root: notes'), ['Notes']);
+  });
+
+  it('hides checked nodes with their subtrees', () => {
+    assert.deepEqual(texts('root: ^plan\nhideChecked: true'), ['Plan ^plan', 'Open', 'Next']);
+  });
+
+  it('returns null for a missing root', () => {
+    assert.equal(texts('root: Nowhere'), null);
+  });
+});
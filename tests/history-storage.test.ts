@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HistoryEntry, HistoryState } from '../src/history/command-history';
+import { fitHistoryState, pruneHistories } from '../src/history/history-storage';
+
+const entry = (text: string): HistoryEntry => ({
+  type: 'edit-node',
+  timestamp: 0,
+  nodeInfo: { line: 0, text, indent: '', marker: '-' },
+  patch: [{ oldStart: 0, newStart: 0, removed: [`- ${text}`], added: [`- ${text}!`] }],
+});
+
+const texts = (entries: HistoryEntry[]) => entries.map((item) => item.nodeInfo.text);
+
+describe('fitHistoryState', () => {
+  const state: HistoryState = {
+    undoStack: [entry('a'.repeat(100)), entry('b'.repeat(100)), entry('c'.repeat(100))],
+    redoStack: [entry('d'.repeat(100)), entry('e'.repeat(100))],
+    documentHash: 'hash',
+  };
+  const size = JSON.stringify(state).length;
+
+  it('keeps a history that fits', () => {
+    assert.deepEqual(fitHistoryState(state, size), state);
+  });
+
+  it('drops the oldest undo steps first, then the furthest redo steps', () => {
+    const fitted = fitHistoryState(state, size - 1);
+    assert.deepEqual(texts(fitted.undoStack), ['b'.repeat(100), 'c'.repeat(100)]);
+    assert.equal(fitted.redoStack.length, 2);
+    assert.ok(JSON.stringify(fitted).length <= size - 1);
+
+    const smaller = fitHistoryState(state, JSON.stringify({ ...state, undoStack: [], redoStack: [entry('d'.repeat(100))] }).length);
+    assert.deepEqual(texts(smaller.undoStack), []);
+    assert.deepEqual(texts(smaller.redoStack), ['d'.repeat(100)]);
+    assert.equal(smaller.documentHash, 'hash');
+  });
+});
+
+describe('pruneHistories', () => {
+  it('keeps the most recently saved histories', () => {
+    const history = (savedAt?: number): HistoryState => ({ undoStack: [entry('a')], redoStack: [], savedAt });
+    const pruned = pruneHistories({ old: history(1), unknown: history(), newest: history(3), recent: history(2) }, 2);
+
+    assert.deepEqual(Object.keys(pruned).sort(), ['newest', 'recent']);
+  });
+});
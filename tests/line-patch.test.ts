@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyLinePatch,
+  applyLinePatches,
+  computeLinePatch,
+  hashDocument,
+  invertLinePatch,
+  rebaseLinePatch,
+} from '../src/history/line-patch';
+
+const doc = (...lines: string[]) => lines.join('\n');
+
+const roundTrip = (before: string, after: string) => {
+  const patch = computeLinePatch(before, after);
+  assert.equal(applyLinePatch(before, patch), after);
+  assert.equal(applyLinePatch(after, invertLinePatch(patch)), before);
+  return patch;
+};
+
+describe('computeLinePatch', () => {
+  it('is empty for unchanged documents', () => {
+    assert.deepEqual(computeLinePatch(doc('- A', '- B'), doc('- A', '- B')), []);
+  });
+
+  it('stores one hunk per changed region with context around it', () => {
+    const before = doc('- A', '- B', '- C', '- D', '- E', '- F', '- G');
+    const after = doc('- A', '- B2', '- C', '- D', '- E', '- F', '- G', '- H');
+
+    assert.deepEqual(roundTrip(before, after), [
+      { oldStart: 1, newStart: 1, removed: ['- B'], added: ['- B2'], contextBefore: ['- A'], contextAfter: ['- C', '- D'] },
+      { oldStart: 7, newStart: 7, removed: [], added: ['- H'], contextBefore: ['- F', '- G'], contextAfter: [] },
+    ]);
+  });
+
+  it('stops context at the neighbouring hunk', () => {
+    const patch = roundTrip(doc('- A', '- B', '- C'), doc('- A2', '- B', '- C2'));
+
+    assert.deepEqual(patch.map((hunk) => [hunk.contextBefore, hunk.contextAfter]), [[[], ['- B']], [['- B'], []]]);
+  });
+
+  it('handles empty and whole-file changes', () => {
+    roundTrip('', doc('- A', '- B'));
+    roundTrip(doc('- A', '- B'), '');
+    assert.equal(roundTrip(doc('- A', '- B'), doc('- C', '- D', '- E')).length, 1);
+  });
+
+  it('stores a large changed region as a single hunk instead of diffing it', () => {
+    const before = Array.from({ length: 600 }, (_, i) => `- ${i}`);
+    const after = before.map((line, i) => (i % 2 === 0 ? `${line} changed` : line));
+    const patch = roundTrip(doc(...before), doc(...after));
+
+    assert.equal(patch.length, 1);
+    assert.equal(patch[0].removed.length, 599);
+    assert.equal(patch[0].added.length, 599);
+  });
+});
+
+describe('applyLinePatch', () => {
+  it('refuses to apply where the replaced lines are not there', () => {
+    const patch = computeLinePatch(doc('- A', '- B', '- C'), doc('- A', '- B2', '- C'));
+
+    assert.throws(() => applyLinePatch(doc('- A', '- X', '- C'), patch), /no longer matches at line 2/);
+  });
+});
+
+describe('undoing around outside edits', () => {
+  const before = doc('- A', '- B', '- C', '- D', '- E', '- F', '- G');
+  const after = doc('- A', '- B', '- C', '- D2', '- E', '- F', '- G');
+  const undo = invertLinePatch(computeLinePatch(before, after));
+
+  it('follows lines added above the hunk', () => {
+    const edited = doc('- New', '- New 2', '- A', '- B', '- C', '- D2', '- E', '- F', '- G');
+
+    assert.equal(rebaseLinePatch(edited, undo)[0].oldStart, 5);
+    assert.equal(applyLinePatches(edited, [undo], true), doc('- New', '- New 2', '- A', '- B', '- C', '- D', '- E', '- F', '- G'));
+  });
+
+  it('ignores lines changed below the hunk', () => {
+    const edited = doc('- A', '- B', '- C', '- D2', '- E', '- F', '- G2', '- H');
+
+    assert.equal(applyLinePatches(edited, [undo], true), doc('- A', '- B', '- C', '- D', '- E', '- F', '- G2', '- H'));
+  });
+
+  it('still finds the hunk when a line of its context was edited', () => {
+    const edited = doc('- A', '- B', '- C2', '- D2', '- E', '- F', '- G');
+
+    assert.equal(applyLinePatches(edited, [undo], true), doc('- A', '- B', '- C2', '- D', '- E', '- F', '- G'));
+  });
+
+  it('prefers the match closest to where the hunk was', () => {
+    const step = invertLinePatch(computeLinePatch(doc('- X', '- A', '- X'), doc('- X', '- A', '- Y')));
+    const edited = doc('- Y', '- Z', '- X', '- A', '- Y');
+
+    assert.equal(applyLinePatches(edited, [step], true), doc('- Y', '- Z', '- X', '- A', '- X'));
+  });
+
+  it('refuses to apply when the hunk\'s own lines were edited', () => {
+    const edited = doc('- A', '- B', '- C', '- D3', '- E', '- F', '- G');
+
+    assert.throws(() => rebaseLinePatch(edited, undo), /the lines around line 4 were changed/);
+    assert.throws(() => applyLinePatches(edited, [undo], true), /the lines around line 4 were changed/);
+  });
+
+  it('applies several steps in order', () => {
+    const third = doc('- A', '- B', '- C', '- D2', '- E', '- F2', '- G');
+    const undoBoth = [invertLinePatch(computeLinePatch(after, third)), undo];
+
+    assert.equal(applyLinePatches(third, undoBoth, false), before);
+    assert.equal(applyLinePatches(doc('- Top', third), undoBoth, true), doc('- Top', before));
+  });
+});
+
+describe('hashDocument', () => {
+  it('notices any change to the document', () => {
+    assert.equal(hashDocument(doc('- A', '- B')), hashDocument(doc('- A', '- B')));
+    assert.notEqual(hashDocument(doc('- A', '- B')), hashDocument(doc('- A', '- C')));
+    assert.notEqual(hashDocument(doc('- A', '- B')), hashDocument(doc('- A', '- B', '')));
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseOutline } from '../src/utils/outline';
+import { mermaidMindmapToMarkdown, outlineToMermaidMindmap } from '../src/formats/mermaid';
+import { outlineToMarkmap } from '../src/formats/markmap';
+
+const outline = [
+  '- Plan ^plan',
+  '\t- [x] Draft (v2) %%eome:color=green%%',
+  '\t- [ ] Ship %%eome:collapsed%%',
+  '\t  Before Friday',
+  '\t\t- Tag release',
+].join('\n');
+
+describe('outlineToMermaidMindmap', () => {
+  it('writes a fenced mindmap block', () => {
+    assert.equal(outlineToMermaidMindmap(parseOutline(outline), 'Notes'), [
+      '```mermaid',
+      'mindmap',
+      '  Plan',
+      '    ["✅ Draft (v2)"]',
+      '    ⬜ Ship',
+      '      Tag release',
+      '```',
+    ].join('\n'));
+  });
+
+  it('places several roots under a topic named after the file', () => {
+    assert.equal(
+      outlineToMermaidMindmap(parseOutline('- One\n- Two'), 'Notes'),
+      '```mermaid\nmindmap\n  Notes\n    One\n    Two\n```'
+    );
+  });
+});
+
+describe('mermaidMindmapToMarkdown', () => {
+  it('reads back what it writes', () => {
+    const mermaid = outlineToMermaidMindmap(parseOutline(outline), 'Notes');
+
+    assert.equal(mermaidMindmapToMarkdown(mermaid), [
+      '- Plan',
+      '\t- [x] Draft (v2)',
+      '\t- [ ] Ship',
+      '\t\t- Tag release',
+    ].join('\n'));
+  });
+
+  it('reads node shapes, ids, icons and comments', () => {
+    const mermaid = [
+      'mindmap',
+      '  root((Central))',
+      '    %% a comment',
+      '    a[Square]',
+      '    ::icon(fa fa-book)',
+      '    b(Rounded)',
+      '      ))Bang((',
+      '      {{Hexagon}}',
+      '    Plain text (with brackets)',
+    ].join('\n');
+
+    assert.equal(mermaidMindmapToMarkdown(mermaid), [
+      '- Central',
+      '\t- Square',
+      '\t- Rounded',
+      '\t\t- Bang',
+      '\t\t- Hexagon',
+      '\t- Plain text (with brackets)',
+    ].join('\n'));
+  });
+
+  it('returns null for other text', () => {
+    assert.equal(mermaidMindmapToMarkdown('- Just a list'), null);
+    assert.equal(mermaidMindmapToMarkdown('```mermaid\nflowchart TD\n  A --> B\n```'), null);
+  });
+});
+
+describe('outlineToMarkmap', () => {
+  it('writes a heading and a nested list with tasks, bodies and folds', () => {
+    assert.equal(outlineToMarkmap(parseOutline(outline), 'Notes'), [
+      '# Plan',
+      '',
+      '- [x] Draft (v2)',
+      '- [ ] Ship <!-- markmap: fold -->',
+      '  Before Friday',
+      '  - Tag release',
+    ].join('\n'));
+  });
+});
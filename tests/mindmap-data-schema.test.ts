@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MINDMAP_DATA_VERSION, parseMindmapData, serializeMindmapData } from '../src/storage/mindmap-data-schema';
+
+describe('parseMindmapData', () => {
+  it('reads a versioned YAML object', () => {
+    const parsed = parseMindmapData({ version: 1, layoutType: 'radial', nodeWidth: 240, showCheckboxesOnHover: true });
+
+    assert.deepEqual(parsed, {
+      data: { layoutType: 'radial', nodeWidth: 240, showCheckboxesOnHover: true },
+      errors: [],
+      ignored: {},
+      legacy: false,
+      readOnly: false,
+    });
+  });
+
+  it('migrates the legacy key:value string', () => {
+    const parsed = parseMindmapData('layoutType:indented; nodeWidth:200;showCheckboxesOnHover:true;align:DL');
+
+    assert.equal(parsed.legacy, true);
+    assert.deepEqual(parsed.data, { layoutType: 'indented', nodeWidth: 200, showCheckboxesOnHover: true, align: 'UL' });
+    assert.deepEqual(parsed.errors, []);
+  });
+
+  it('reads the misspelled acyciler key of early versions', () => {
+    assert.deepEqual(parseMindmapData('acyciler:greedy').data, { acyclicer: 'greedy' });
+  });
+
+  it('treats a newer version as read-only', () => {
+    const parsed = parseMindmapData({ version: MINDMAP_DATA_VERSION + 1, layoutType: 'tree' });
+
+    assert.equal(parsed.readOnly, true);
+    assert.deepEqual(parsed.data, {});
+    assert.equal(parsed.errors.length, 1);
+  });
+
+  it('reports unknown keys and invalid values and keeps them as written', () => {
+    const parsed = parseMindmapData({ nodeWidth: 0, rankDir: 'sideways', theme: 'dark', nodeSep: 20 });
+
+    assert.deepEqual(parsed.data, { nodeSep: 20 });
+    assert.deepEqual(parsed.errors, [
+      'nodeWidth must be at least 1',
+      'rankDir must be one of TB, BT, LR, RL',
+      'unknown setting "theme"',
+    ]);
+    assert.deepEqual(parsed.ignored, { nodeWidth: 0, rankDir: 'sideways', theme: 'dark' });
+  });
+
+  it('rejects values that are not an object', () => {
+    assert.deepEqual(parseMindmapData(['tree']).errors, ['expected a YAML object']);
+  });
+});
+
+describe('serializeMindmapData', () => {
+  it('writes the version and keeps ignored entries that are not replaced', () => {
+    const { data, ignored } = parseMindmapData({ rankDir: 'sideways', theme: 'dark' });
+    data.rankDir = 'LR';
+
+    assert.deepEqual(serializeMindmapData(data, ignored), { version: MINDMAP_DATA_VERSION, rankDir: 'LR', theme: 'dark' });
+  });
+
+  it('rewrites legacy strings as an object', () => {
+    const { data, ignored } = parseMindmapData('nodeWidth:200;theme:dark');
+
+    assert.deepEqual(serializeMindmapData(data, ignored), { version: MINDMAP_DATA_VERSION, nodeWidth: 200, theme: 'dark' });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseOutline } from '../src/utils/outline';
+import { outlineToFreemind } from '../src/formats/freemind';
+import { outlineToXmind, xmindToMarkdown } from '../src/formats/xmind';
+import { createZip, readZip } from '../src/formats/zip';
+import { formatNodeMarkers } from '../src/domain/node-markers';
+
+const outline = [
+  '- Plan',
+  '\t- [x] Draft & review' + formatNodeMarkers({ color: 'green' }),
+  '\t- [ ] Ship' + formatNodeMarkers({ collapsed: true }),
+  '\t  Before Friday',
+  '\t\t- Tag release',
+].join('\n');
+
+describe('outlineToFreemind', () => {
+  it('writes task icons, colors, fold state and notes', () => {
+    const xml = outlineToFreemind(parseOutline(outline), 'Plan');
+
+    assert.match(xml, /^<map version="1.0.1">\n  <node TEXT="Plan">/);
+    assert.match(xml, /<node TEXT="Draft &amp; review" BACKGROUND_COLOR="#08b94e">\n\s*<icon BUILTIN="button_ok"\/>/);
+    assert.match(xml, /<node TEXT="Ship" FOLDED="true">\n\s*<icon BUILTIN="unchecked"\/>/);
+    assert.match(xml, /<richcontent TYPE="NOTE"><html><head><\/head><body><p>Before Friday<\/p><\/body><\/html><\/richcontent>/);
+    assert.match(xml, /<node TEXT="Tag release"\/>/);
+  });
+
+  it('places several roots under a topic named after the file', () => {
+    const xml = outlineToFreemind(parseOutline('- One\n- Two'), 'Notes');
+
+    assert.match(xml, /<node TEXT="Notes">\n\s*<node TEXT="One"\/>\n\s*<node TEXT="Two"\/>/);
+  });
+});
+
+describe('zip', () => {
+  it('reads back the entries it writes', async () => {
+    const encoder = new TextEncoder();
+    const files = await readZip(createZip([
+      { name: 'a.txt', data: encoder.encode('first') },
+      { name: 'dir/ü.json', data: encoder.encode('{}') },
+    ]));
+
+    assert.deepEqual(
+      Array.from(files, ([name, data]) => [name, new TextDecoder().decode(data)]),
+      [['a.txt', 'first'], ['dir/ü.json', '{}']]
+    );
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    await assert.rejects(readZip(new TextEncoder().encode('not a zip')), /not a zip archive/);
+  });
+});
+
+describe('XMind', () => {
+  it('writes task markers, colors, notes and fold state', async () => {
+    const files = await readZip(outlineToXmind(parseOutline(outline), 'Plan'));
+    const [sheet] = JSON.parse(new TextDecoder().decode(files.get('content.json')));
+    const [done, ship] = sheet.rootTopic.children.attached;
+
+    assert.equal(sheet.rootTopic.title, 'Plan');
+    assert.deepEqual(done.markers, [{ markerId: 'task-done' }]);
+    assert.equal(done.style.properties['svg:fill'], '#08b94e');
+    assert.deepEqual(ship.markers, [{ markerId: 'task-start' }]);
+    assert.equal(ship.branch, 'folded');
+    assert.deepEqual(ship.notes, { plain: { content: 'Before Friday' } });
+    assert.ok(files.has('manifest.json'));
+  });
+
+  it('round-trips an outline', async () => {
+    const markdown = await xmindToMarkdown(outlineToXmind(parseOutline(outline), 'Roadmap'), 'Roadmap');
+
+    assert.equal(markdown, outline);
+  });
+
+  it('drops the central topic added for several roots', async () => {
+    const markdown = await xmindToMarkdown(outlineToXmind(parseOutline('- One\n- Two'), 'Notes'), 'Notes');
+
+    assert.equal(markdown, '- One\n- Two');
+  });
+});
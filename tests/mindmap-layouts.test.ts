@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LayoutNode, layoutBalanced } from '../src/domain/mindmap-layouts';
+
+const node = (id: string, height: number, children: LayoutNode[] = []): LayoutNode =>
+  ({ id, width: 100, height, children });
+
+describe('layoutBalanced', () => {
+  it('places every child once when subtree heights are uneven', () => {
+    const root = node('root', 20, [node('a', 50), node('b', 100, [node('b1', 40)]), node('c', 5)]);
+    const positions = layoutBalanced([root], 80, 20);
+
+    assert.deepEqual(Array.from(positions.keys()).sort(), ['a', 'b', 'b1', 'c', 'root']);
+    // a stays on the right, b and everything after it go left
+    assert.ok(positions.get('a')!.x > 0);
+    assert.ok(positions.get('b')!.x < 0);
+    assert.ok(positions.get('b1')!.x < positions.get('b')!.x);
+    assert.ok(positions.get('c')!.x < 0);
+    assert.ok(positions.get('b')!.y < positions.get('c')!.y);
+  });
+
+  it('splits children of similar height evenly', () => {
+    const root = node('root', 20, [node('a', 30), node('b', 30), node('c', 30), node('d', 30)]);
+    const positions = layoutBalanced([root], 80, 20);
+
+    assert.deepEqual(['a', 'b', 'c', 'd'].map((id) => Math.sign(positions.get(id)!.x)), [1, 1, -1, -1]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flattenOutline, parseOutline } from '../src/utils/outline';
+import { resolveOutlineNodes } from '../src/domain/node-identity';
+
+const flat = (markdown: string) => flattenOutline(parseOutline(markdown));
+
+describe('resolveOutlineNodes', () => {
+  it('keeps nodes whose line is unchanged', () => {
+    const nodes = flat('- A\n\t- B\n- C');
+    const resolved = resolveOutlineNodes([nodes[1]], flat('- A\n\t- B\n\t\t- New\n- C'));
+
+    assert.deepEqual(resolved?.map((node) => [node.line, node.text, node.endLine]), [[1, 'B', 2]]);
+  });
+
+  it('follows a node that moved to another line', () => {
+    const nodes = flat('- A\n- B\n- C');
+    const resolved = resolveOutlineNodes([nodes[2]], flat('- New\n- A\n- B\n- C'));
+
+    assert.deepEqual(resolved?.map((node) => [node.line, node.text]), [[3, 'C']]);
+  });
+
+  it('finds a node by its block id', () => {
+    const nodes = flat('- Task ^t1\n- Task ^t2');
+    const resolved = resolveOutlineNodes([nodes[1]], flat('- Intro\n- Task ^t2\n- Task ^t1'));
+
+    assert.deepEqual(resolved?.map((node) => node.line), [1]);
+  });
+
+  it('gives up when the node is gone or ambiguous', () => {
+    const nodes = flat('- A\n- B');
+
+    assert.equal(resolveOutlineNodes([nodes[1]], flat('- A\n- C')), null);
+    assert.equal(resolveOutlineNodes([nodes[1]], flat('- B\n- New\n- B')), null);
+  });
+});
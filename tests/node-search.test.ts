@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseOutline } from '../src/utils/outline';
+import { parseSearchQuery, searchOutline } from '../src/domain/node-search';
+
+describe('parseSearchQuery', () => {
+  it('splits words, tags, regular expressions and task filters', () => {
+    const query = parseSearchQuery('  Plan #Work/Q3 /v\\d+/ is:unchecked ');
+
+    assert.deepEqual(query?.terms, ['plan']);
+    assert.deepEqual(query?.tags, ['work/q3']);
+    assert.deepEqual(query?.patterns.map((pattern) => [pattern.source, pattern.flags]), [['v\\d+', 'i']]);
+    assert.equal(query?.checkbox, 'unchecked');
+  });
+
+  it('keeps regex flags except g', () => {
+    assert.equal(parseSearchQuery('/abc/gm')?.patterns[0].flags, 'm');
+  });
+
+  it('returns null for an empty query and throws on an invalid regex', () => {
+    assert.equal(parseSearchQuery('   '), null);
+    assert.throws(() => parseSearchQuery('/(/'));
+  });
+});
+
+describe('searchOutline', () => {
+  const outline = parseOutline([
+    '- Project',
+    '\t- [ ] Write plan #work',
+    '\t\t- Draft',
+    '\t- [x] Review plan #work/team',
+    '- Home',
+    '\t- Garden',
+  ].join('\n'));
+
+  it('marks matches and their ancestors and leaves the rest out', () => {
+    const results = searchOutline(parseSearchQuery('plan')!, outline);
+
+    assert.deepEqual(Array.from(results.entries()).sort(([a], [b]) => a - b), [
+      [0, 'ancestor'],
+      [1, 'match'],
+      [3, 'match'],
+    ]);
+  });
+
+  it('keeps a node that matches itself marked as a match under another match', () => {
+    const results = searchOutline(parseSearchQuery('r')!, parseOutline('- Root\n\t- Branch'));
+
+    assert.equal(results.get(0), 'match');
+    assert.equal(results.get(1), 'match');
+  });
+
+  it('matches nested tags under their parent and checks task state', () => {
+    assert.deepEqual(Array.from(searchOutline(parseSearchQuery('#work')!, outline).keys()).sort(), [0, 1, 3]);
+    assert.deepEqual(Array.from(searchOutline(parseSearchQuery('#work/team')!, outline).keys()).sort(), [0, 3]);
+    assert.equal(searchOutline(parseSearchQuery('is:checked')!, outline).get(3), 'match');
+    assert.equal(searchOutline(parseSearchQuery('is:checked')!, outline).get(1), undefined);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseOutline } from '../src/utils/outline';
+import { outlineToOpml } from '../src/formats/opml';
+import { formatNodeMarkers } from '../src/domain/node-markers';
+
+describe('outlineToOpml', () => {
+  it('writes task state, notes and plugin markers as outline attributes', () => {
+    const outline = [
+      '- Plan',
+      '\t- [x] Draft & review' + formatNodeMarkers({ color: 'green' }),
+      '\t- [ ] Ship "v2"' + formatNodeMarkers({ collapsed: true }),
+      '\t  Before <Friday>',
+      '\t\t- Tag release',
+      '- Notes',
+    ].join('\n');
+
+    assert.equal(outlineToOpml(parseOutline(outline), 'Plan & notes'), [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<opml version="2.0">',
+      '  <head>',
+      '    <title>Plan &amp; notes</title>',
+      '  </head>',
+      '  <body>',
+      '    <outline text="Plan">',
+      '      <outline text="Draft &amp; review" _status="checked" _eome="color=green"/>',
+      '      <outline text="Ship &quot;v2&quot;" _status="unchecked" _note="Before &lt;Friday&gt;" _eome="collapsed">',
+      '        <outline text="Tag release"/>',
+      '      </outline>',
+      '    </outline>',
+      '    <outline text="Notes"/>',
+      '  </body>',
+      '</opml>',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes an empty body for an empty outline', () => {
+    assert.match(outlineToOpml([], 'Empty'), /<body>\n {2}<\/body>/);
+  });
+});
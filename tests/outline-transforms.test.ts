@@ -0,0 +1,283 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flattenOutline, OutlineNode, parseOutline } from '../src/utils/outline';
+import {
+  addSibling,
+  cutPasteMarkdownAsChildren,
+  deleteMultipleNodesKeepChildren,
+  deleteNode,
+  detectOutlineStyle,
+  duplicateSubtree,
+  indentNodes,
+  moveNodesAmongSiblings,
+  moveSubtree,
+  outdentNodes,
+  preparePastedOutlineLines,
+  setNodesStyle,
+} from '../src/domain/outline-transforms';
+import { getNodeStyle } from '../src/domain/node-style';
+
+function node(lines: string[], text: string): OutlineNode {
+  const found = flattenOutline(parseOutline(lines.join('\n'))).find((candidate) => candidate.text === text);
+  assert.ok(found, `no node "${text}"`);
+  return found;
+}
+
+describe('detectOutlineStyle', () => {
+  it('reads the indent unit and bullet of the file', () => {
+    assert.deepEqual(detectOutlineStyle(['* A', '  * B', '    * C']), { indentUnit: '  ', bullet: '*' });
+    assert.deepEqual(detectOutlineStyle(['- A', '    - B']), { indentUnit: '    ', bullet: '-' });
+  });
+
+  it('falls back to tabs and dashes', () => {
+    assert.deepEqual(detectOutlineStyle(['1. A', '2. B']), { indentUnit: '\t', bullet: '-' });
+  });
+});
+
+describe('moveSubtree', () => {
+  const tabs = ['- A', '\t- A1', '\t\t- A1a', '- B', '\t- B1'];
+
+  it('moves a subtree in as the first child', () => {
+    const result = moveSubtree(tabs, node(tabs, 'A1'), node(tabs, 'B'), true, 'first');
+    assert.deepEqual(result, ['- A', '- B', '\t- A1', '\t\t- A1a', '\t- B1']);
+  });
+
+  it('moves a subtree in as the last child', () => {
+    const result = moveSubtree(tabs, node(tabs, 'A1'), node(tabs, 'B'), true, 'last');
+    assert.deepEqual(result, ['- A', '- B', '\t- B1', '\t- A1', '\t\t- A1a']);
+  });
+
+  it('outdents a subtree moved next to a shallower sibling', () => {
+    const result = moveSubtree(tabs, node(tabs, 'A1'), node(tabs, 'B'), false, 'first', 'before');
+    assert.deepEqual(result, ['- A', '- A1', '\t- A1a', '- B', '\t- B1']);
+  });
+
+  it('moves a subtree up before an earlier node', () => {
+    const result = moveSubtree(tabs, node(tabs, 'B'), node(tabs, 'A'), false, 'first', 'before');
+    assert.deepEqual(result, ['- B', '\t- B1', '- A', '\t- A1', '\t\t- A1a']);
+  });
+
+  it('keeps space indentation', () => {
+    const spaces = ['- A', '  - A1', '    - A1a', '- B'];
+    const result = moveSubtree(spaces, node(spaces, 'A1'), node(spaces, 'B'), true, 'first');
+    assert.deepEqual(result, ['- A', '- B', '  - A1', '    - A1a']);
+  });
+
+  it('re-indents by prefix in mixed indentation', () => {
+    const mixed = ['- A', '\t- A1', '\t    - A1a', '- B', '    - B1'];
+    const result = moveSubtree(mixed, node(mixed, 'A1'), node(mixed, 'B1'), false, 'first', 'after');
+    assert.deepEqual(result, ['- A', '- B', '    - B1', '    - A1', '        - A1a']);
+  });
+
+  it('keeps bodies and blank lines with the moved node', () => {
+    const lines = ['- A', '  body of A', '', '- B'];
+    const result = moveSubtree(lines, node(lines, 'A'), node(lines, 'B'), false, 'first', 'after');
+    assert.deepEqual(result, ['- B', '- A', '  body of A', '']);
+  });
+
+  it('leaves the frontmatter alone', () => {
+    const lines = ['---', 'tags:', '  - x', '---', '- A', '- B'];
+    const result = moveSubtree(lines, node(lines, 'B'), node(lines, 'A'), false, 'first', 'before');
+    assert.deepEqual(result, ['---', 'tags:', '  - x', '---', '- B', '- A']);
+  });
+
+  it('renumbers numbered lists', () => {
+    const lines = ['1. A', '2. B', '3. C', '- D', '\t1. D1'];
+    const result = moveSubtree(lines, node(lines, 'A'), node(lines, 'D'), true, 'last');
+    assert.deepEqual(result, ['1. B', '2. C', '- D', '\t1. D1', '\t2. A']);
+  });
+
+  it('does nothing when moving a node onto itself', () => {
+    assert.equal(moveSubtree(tabs, node(tabs, 'A'), node(tabs, 'A')), tabs);
+  });
+
+  it('unfolds a collapsed target the node is moved into', () => {
+    const lines = ['- A', '- B %%eome:collapsed%%', '\t- B1'];
+    const result = moveSubtree(lines, node(lines, 'A'), node(lines, 'B'), true, 'last');
+    assert.deepEqual(result, ['- B', '\t- B1', '\t- A']);
+  });
+
+  it('uses the indent of the target\'s children', () => {
+    const lines = ['- A', '- B', '    - B1', '- C', '\t- C1', '- D', '\t- D1'];
+    const result = moveSubtree(lines, node(lines, 'A'), node(lines, 'B'), true, 'last');
+    assert.deepEqual(result, ['- B', '    - B1', '    - A', '- C', '\t- C1', '- D', '\t- D1']);
+  });
+
+  it('keeps a collapsed target folded when moving next to it', () => {
+    const lines = ['- A', '- B %%eome:collapsed%%', '\t- B1'];
+    const result = moveSubtree(lines, node(lines, 'A'), node(lines, 'B'), false, 'first', 'after');
+    assert.deepEqual(result, ['- B %%eome:collapsed%%', '\t- B1', '- A']);
+  });
+});
+
+describe('indentNodes', () => {
+  it('adds the nodes after the children of the previous sibling, with their indent', () => {
+    const lines = ['- A %%eome:collapsed%%', '  - A1', '- B', '  - B1', '- C'];
+    const result = indentNodes(lines, [node(lines, 'B'), node(lines, 'C')]);
+    assert.deepEqual(result, ['- A', '  - A1', '  - B', '    - B1', '  - C']);
+  });
+
+  it('leaves the first sibling where it is', () => {
+    const lines = ['- A', '- B'];
+    assert.equal(indentNodes(lines, [node(lines, 'A')]), lines);
+  });
+});
+
+describe('outdentNodes', () => {
+  it('moves a run from the middle of its siblings after the parent', () => {
+    const lines = ['- P', '\t- A', '\t- B', '\t\t- B1', '\t- C', '\t- D', '- Q'];
+    const result = outdentNodes(lines, [node(lines, 'B'), node(lines, 'C')]);
+    assert.deepEqual(result, ['- P', '\t- A', '\t- D', '- B', '\t- B1', '- C', '- Q']);
+  });
+});
+
+describe('moveNodesAmongSiblings', () => {
+  it('swaps a run with the sibling before or after it', () => {
+    const lines = ['- A', '- B', '\t- B1', '- C'];
+    assert.deepEqual(moveNodesAmongSiblings(lines, [node(lines, 'B')], 'up'), ['- B', '\t- B1', '- A', '- C']);
+    assert.deepEqual(moveNodesAmongSiblings(lines, [node(lines, 'B')], 'down'), ['- A', '- C', '- B', '\t- B1']);
+  });
+
+  it('keeps a blank line between the swapped nodes in place', () => {
+    const lines = ['- A', '\t- A1', '', '- B', '- C'];
+    assert.deepEqual(moveNodesAmongSiblings(lines, [node(lines, 'B')], 'up'), ['- B', '', '- A', '\t- A1', '- C']);
+    assert.deepEqual(moveNodesAmongSiblings(lines, [node(lines, 'A')], 'down'), ['- B', '', '- A', '\t- A1', '- C']);
+  });
+});
+
+describe('renumbering numbered lists', () => {
+  it('keeps the first number of a list that does not start at 1', () => {
+    const lines = ['5. five', '6. six'];
+    assert.deepEqual(addSibling(lines, node(lines, 'five')), ['5. five', '6. ', '7. six']);
+    assert.deepEqual(addSibling(lines, node(lines, 'five'), 'before'), ['5. ', '6. five', '7. six']);
+    assert.deepEqual(deleteNode(lines, node(lines, 'five')), ['5. six']);
+  });
+
+  it('leaves lists the edit did not touch as written', () => {
+    const lines = ['- A', '\t1. A1', '\t1. A2', '- B', '\t1. B1', '\t2. B2'];
+    assert.deepEqual(addSibling(lines, node(lines, 'B1')), ['- A', '\t1. A1', '\t1. A2', '- B', '\t1. B1', '\t2. ', '\t3. B2']);
+  });
+});
+
+describe('deleteMultipleNodesKeepChildren', () => {
+  it('moves children up to the deleted node\'s level', () => {
+    const lines = ['- A', '\t- A1', '\t\t- A1a', '\t- A2', '- B'];
+    const result = deleteMultipleNodesKeepChildren(lines, [node(lines, 'A')]);
+    assert.deepEqual(result, ['- A1', '\t- A1a', '- A2', '- B']);
+  });
+
+  it('handles a deleted node inside another deleted node', () => {
+    const lines = ['- A', '\t- A1', '\t\t- A1a', '\t- A2'];
+    const result = deleteMultipleNodesKeepChildren(lines, [node(lines, 'A'), node(lines, 'A1')]);
+    assert.deepEqual(result, ['- A1a', '- A2']);
+  });
+
+  it('keeps space indentation and removes the body', () => {
+    const lines = ['- A', '  - A1', '    body', '    - A1a', '  - A2'];
+    const result = deleteMultipleNodesKeepChildren(lines, [node(lines, 'A1')]);
+    assert.deepEqual(result, ['- A', '  - A1a', '  - A2']);
+  });
+
+  it('keeps empty lines and renumbers the merged list', () => {
+    const lines = ['1. A', '2. B', '', '\t1. B1', '\t2. B2', '3. C'];
+    const result = deleteMultipleNodesKeepChildren(lines, [node(lines, 'B')]);
+    assert.deepEqual(result, ['1. A', '', '2. B1', '3. B2', '4. C']);
+  });
+});
+
+describe('cutPasteMarkdownAsChildren', () => {
+  const lines = ['- A', '\t- A1', '- B', '\t- B1', '- C'];
+
+  it('removes the cut nodes and pastes them under the parent', () => {
+    const result = cutPasteMarkdownAsChildren(lines, [node(lines, 'A1')], node(lines, 'B'), '- A1');
+    assert.deepEqual(result, ['- A', '- B', '\t- B1', '\t- A1', '- C']);
+  });
+
+  it('works when the cut nodes come after the parent', () => {
+    const result = cutPasteMarkdownAsChildren(lines, [node(lines, 'C')], node(lines, 'A'), '- C');
+    assert.deepEqual(result, ['- A', '\t- A1', '\t- C', '- B', '\t- B1']);
+  });
+
+  it('refuses to paste into a cut subtree', () => {
+    const result = cutPasteMarkdownAsChildren(lines, [node(lines, 'B')], node(lines, 'B1'), '- B\n\t- B1');
+    assert.equal(result, lines);
+  });
+
+  it('uses the target file\'s indentation', () => {
+    const spaces = ['- A', '  - A1', '- B'];
+    const result = cutPasteMarkdownAsChildren(spaces, [node(spaces, 'A1')], node(spaces, 'B'), '- A1\n\t- deeper');
+    assert.deepEqual(result, ['- A', '- B', '  - A1', '    - deeper']);
+  });
+});
+
+describe('preparePastedOutlineLines', () => {
+  it('turns plain lines into items', () => {
+    assert.deepEqual(preparePastedOutlineLines('one\n\ntwo', '\t'), ['\t- one', '\t- two']);
+  });
+
+  it('returns nothing for blank text', () => {
+    assert.deepEqual(preparePastedOutlineLines('\n  \n', ''), []);
+  });
+
+  it('maps mixed tab and space levels onto the file\'s indent unit', () => {
+    const pasted = ['- A', '    - B', '\t\t- C', '  - D'].join('\n');
+    assert.deepEqual(preparePastedOutlineLines(pasted, '', { indentUnit: '  ', bullet: '-' }), [
+      '- A',
+      '    - B',
+      '      - C',
+      '  - D',
+    ]);
+  });
+
+  it('keeps bodies with their item', () => {
+    const pasted = ['- A', '  first line', '', '  second line', '- B'].join('\n');
+    assert.deepEqual(preparePastedOutlineLines(pasted, '\t'), [
+      '\t- A',
+      '\t  first line',
+      '',
+      '\t  second line',
+      '\t- B',
+    ]);
+  });
+
+  it('uses the file\'s bullet but keeps numbers', () => {
+    const pasted = ['- A', '1. B', '+ C'].join('\n');
+    assert.deepEqual(preparePastedOutlineLines(pasted, '', { indentUnit: '\t', bullet: '*' }), ['* A', '1. B', '* C']);
+  });
+
+  it('nests stray text under the item before it', () => {
+    assert.deepEqual(preparePastedOutlineLines('- A\nnote', ''), ['- A', '\t- note']);
+  });
+});
+
+describe('setNodesStyle', () => {
+  it('stores the style in the marker comment next to other markers', () => {
+    const lines = ['- A %%eome:collapsed%%', '\t- A1', '- B'];
+    const result = setNodesStyle(lines, [node(lines, 'A'), node(lines, 'B')], { color: 'red', frame: true });
+    assert.deepEqual(result, ['- A %%eome:collapsed color=red frame%%', '\t- A1', '- B %%eome:color=red frame%%']);
+  });
+
+  it('changes only the given parts and removes undefined ones', () => {
+    const lines = ['- A %%eome:color=red icon=💡%%'];
+    assert.deepEqual(setNodesStyle(lines, [node(lines, 'A')], { color: 'blue' }), ['- A %%eome:color=blue icon=💡%%']);
+    assert.deepEqual(setNodesStyle(lines, [node(lines, 'A')], { color: undefined, icon: undefined }), ['- A']);
+  });
+
+  it('drops spaces and percent signs from typed icons', () => {
+    const lines = ['- A'];
+    assert.deepEqual(setNodesStyle(lines, [node(lines, 'A')], { icon: ' book open%' }), ['- A %%eome:icon=bookopen%%']);
+  });
+
+  it('keeps the style when the node is moved or duplicated', () => {
+    const lines = ['- A %%eome:border=dashed%%', '- B'];
+    const moved = moveSubtree(lines, node(lines, 'A'), node(lines, 'B'), true, 'first');
+    assert.deepEqual(getNodeStyle(node(moved, 'A').markers), { border: 'dashed' });
+
+    const duplicated = duplicateSubtree(lines, node(lines, 'A'));
+    assert.deepEqual(duplicated, ['- A %%eome:border=dashed%%', '- A %%eome:border=dashed%%', '- B']);
+  });
+
+  it('ignores unknown colors and borders when reading', () => {
+    assert.deepEqual(getNodeStyle({ color: 'teal', border: 'wavy', icon: 'star' }), { icon: 'star' });
+  });
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { flattenOutline, OutlineNode, parseOutline } from '../src/utils/outline';
+
+function shape(nodes: OutlineNode[]): unknown[] {
+  return nodes.map((node) => node.children.length > 0 ? [node.text, shape(node.children)] : node.text);
+}
+
+test('parseOutline nests tab-indented items', () => {
+  const roots = parseOutline(['- A', '\t- B', '\t\t- C', '\t- D', '- E'].join('\n'));
+
+  assert.deepEqual(shape(roots), [['A', [['B', ['C']], 'D']], 'E']);
+  assert.equal(roots[0].endLine, 3);
+  assert.equal(roots[0].children[0].endLine, 2);
+});
+
+test('parseOutline nests space-indented items', () => {
+  const roots = parseOutline(['* A', '  * B', '    * C', '  * D'].join('\n'));
+
+  assert.deepEqual(shape(roots), [['A', [['B', ['C']], 'D']]]);
+  assert.equal(roots[0].children[0].indent, '  ');
+  assert.equal(roots[0].marker, '*');
+});
+
+test('parseOutline treats a tab like four spaces in mixed indentation', () => {
+  const roots = parseOutline(['- A', '\t- B', '    - C', '\t\t- D'].join('\n'));
+
+  assert.deepEqual(shape(roots), [['A', ['B', ['C', ['D']]]]]);
+});
+
+test('parseOutline skips empty lines between items', () => {
+  const roots = parseOutline(['- A', '', '\t- B', '', '', '- C', ''].join('\n'));
+
+  assert.deepEqual(shape(roots), [['A', ['B']], 'C']);
+  assert.equal(roots[0].children[0].line, 2);
+  assert.equal(roots[0].endLine, 2);
+  assert.equal(roots[1].line, 5);
+});
+
+test('parseOutline ignores list items in the frontmatter', () => {
+  const roots = parseOutline(['---', 'tags:', '  - mindmap', '---', '- A', '\t- B'].join('\n'));
+
+  assert.deepEqual(shape(roots), [['A', ['B']]]);
+  assert.equal(roots[0].line, 4);
+});
+
+test('parseOutline reads numbered markers, tasks, markers and bodies', () => {
+  const roots = parseOutline([
+    '1. First',
+    '   continued',
+    '2. [x] Done %%eome:collapsed%%',
+    '\t- Child',
+  ].join('\n'));
+  const [first, second] = roots;
+
+  assert.equal(first.marker, '1.');
+  assert.equal(first.body, 'continued');
+  assert.equal(first.bodyEndLine, 1);
+  assert.equal(second.marker, '2.');
+  assert.equal(second.checkbox, 'checked');
+  assert.equal(second.text, 'Done');
+  assert.equal(second.markers.collapsed, true);
+  assert.deepEqual(flattenOutline(roots).map((node) => node.line), [0, 2, 3]);
+});
@@ -0,0 +1,36 @@
+// Bundles the tests with esbuild and runs them with the Node test runner.
+// Only code that does not import "obsidian" can be tested this way.
+import esbuild from "esbuild";
+import process from "process";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { builtinModules } from "module";
+
+const testDir = "tests";
+const entryPoints = readdirSync(testDir)
+	.filter((name) => name.endsWith(".test.ts"))
+	.map((name) => join(testDir, name));
+
+const outdir = mkdtempSync(join(tmpdir(), "eome-tests-"));
+
+try {
+	await esbuild.build({
+		entryPoints,
+		outdir,
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		external: builtinModules.concat(builtinModules.map((name) => `node:${name}`)),
+		sourcemap: "inline",
+		logLevel: "warning",
+	});
+
+	const outputs = readdirSync(outdir).map((name) => join(outdir, name));
+	const result = spawnSync(process.execPath, ["--enable-source-maps", "--test", ...outputs], { stdio: "inherit" });
+	process.exitCode = result.status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}